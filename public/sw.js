@@ -0,0 +1,190 @@
+// ---------- Saree Studio service worker ----------
+// Keeps a previously viewed catalog browsable offline:
+//   - app shell: index.html plus the hashed JS/CSS it references, precached
+//     on install and served cache-first (navigations fall back to it)
+//   - catalog API (/api/catalog and its subfolder pages): network-first,
+//     falling back to the last good response. Fallbacks carry a
+//     CACHED_AT_HEADER so the app can still tell it is offline and show
+//     when the copy was saved (see lib/api.ts).
+//   - item images: cache-first with an LRU cap on the number of entries
+//
+// Bump CACHE_VERSION whenever the caching strategy changes; old caches are
+// dropped on activate.
+
+const CACHE_VERSION = "v3";
+const SHELL_CACHE = `saree-shell-${CACHE_VERSION}`;
+const API_CACHE = `saree-api-${CACHE_VERSION}`;
+const IMAGE_CACHE = `saree-images-${CACHE_VERSION}`;
+const KNOWN_CACHES = [SHELL_CACHE, API_CACHE, IMAGE_CACHE];
+
+// Keep in sync with SW_CACHED_AT_HEADER in src/lib/api.ts.
+const CACHED_AT_HEADER = "X-SW-Cached-At";
+
+// Drive thumbnails come back as opaque responses, which browsers pad to
+// several MB each for quota purposes, so the cap is an entry count and is
+// kept low enough to stay well inside a typical origin quota.
+const MAX_IMAGE_ENTRIES = 60;
+
+const IMAGE_HOSTS = [
+  "drive.google.com",
+  "lh3.googleusercontent.com",
+  "drive.usercontent.google.com",
+];
+
+// ---- Install: precache the shell ----
+async function precacheShell() {
+  const cache = await caches.open(SHELL_CACHE);
+  const res = await fetch("/index.html", { cache: "no-cache" });
+  if (!res.ok) return;
+  const html = await res.clone().text();
+  const assets = Array.from(
+    html.matchAll(/(?:src|href)="(\/[^"]+\.(?:js|css|svg|png|ico))"/g),
+    (match) => match[1]
+  );
+  await cache.put("/index.html", res);
+  await cache.addAll(Array.from(new Set(assets)));
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter(
+            (name) => name.startsWith("saree-") && !KNOWN_CACHES.includes(name)
+          )
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+// ---- Strategies ----
+/**
+ * Writing to the cache is best effort: a quota error must never turn a
+ * response we already have from the network into a failed request.
+ */
+async function putSafely(cache, request, res) {
+  try {
+    await cache.put(request, res);
+    return true;
+  } catch (err) {
+    console.warn("Service worker could not cache", request.url ?? request, err);
+    return false;
+  }
+}
+
+/**
+ * Serves the network response when there is one and remembers it; offline,
+ * replays the last good copy. Stored copies are stamped with
+ * CACHED_AT_HEADER, so only fallbacks ever reach the page with it.
+ */
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  let res;
+  try {
+    res = await fetch(request);
+  } catch (err) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw err;
+  }
+  if (res.ok) {
+    const headers = new Headers(res.headers);
+    headers.set(CACHED_AT_HEADER, new Date().toISOString());
+    const stamped = new Response(await res.clone().blob(), {
+      status: res.status,
+      statusText: res.statusText,
+      headers,
+    });
+    await putSafely(cache, request, stamped);
+  }
+  return res;
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok) await putSafely(cache, request, res.clone());
+  return res;
+}
+
+async function trimCache(cache, maxEntries) {
+  try {
+    const keys = await cache.keys();
+    // Cache keys come back in insertion order, oldest first.
+    await Promise.all(
+      keys
+        .slice(0, Math.max(0, keys.length - maxEntries))
+        .map((key) => cache.delete(key))
+    );
+  } catch (err) {
+    console.warn("Service worker could not trim the image cache", err);
+  }
+}
+
+async function lruImage(request) {
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(request);
+  if (cached) {
+    // Re-insert so this entry becomes the most recently used.
+    await cache.delete(request).catch(() => false);
+    await putSafely(cache, request, cached.clone());
+    return cached;
+  }
+  const res = await fetch(request);
+  // Opaque (no-cors) image responses report status 0 but are still usable.
+  if (res.ok || res.type === "opaque") {
+    // Trim first so a full cache makes room instead of rejecting the write.
+    await trimCache(cache, MAX_IMAGE_ENTRIES - 1);
+    await putSafely(cache, request, res.clone());
+  }
+  return res;
+}
+
+async function navigation(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const res = await fetch(request);
+    // Every route is served the same index.html, so keep the offline copy
+    // current with whatever the server handed out last.
+    if (res.ok) await putSafely(cache, "/index.html", res.clone());
+    return res;
+  } catch (err) {
+    const shell = await cache.match("/index.html");
+    if (shell) return shell;
+    throw err;
+  }
+}
+
+// ---- Routing ----
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+
+  if (request.mode === "navigate") {
+    event.respondWith(navigation(request));
+  } else if (/\/api\/catalog(\/|$)/.test(url.pathname)) {
+    event.respondWith(networkFirst(request, API_CACHE));
+  } else if (
+    request.destination === "image" &&
+    IMAGE_HOSTS.includes(url.hostname)
+  ) {
+    event.respondWith(lruImage(request));
+  } else if (
+    url.origin === self.location.origin &&
+    url.pathname.startsWith("/assets/")
+  ) {
+    // Vite asset names are content-hashed, so they never go stale.
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
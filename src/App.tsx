@@ -1,11 +1,15 @@
 import "./App.css";
+import { I18nProvider } from "./components/i18n-provider";
+import { ThemeProvider } from "./components/theme-provider";
 import SareeCatalog from "./sareecategoly";
 
 function App() {
   return (
-    <>
-      <SareeCatalog />
-    </>
+    <ThemeProvider>
+      <I18nProvider>
+        <SareeCatalog />
+      </I18nProvider>
+    </ThemeProvider>
   );
 }
 
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fireEvent, screen } from "@testing-library/react";
+import { CartDrawer } from "@/components/cart-drawer";
+import { countCartItems, type CartLine } from "@/lib/cart";
+import { axeViolations } from "@/test/axe";
+import { CART_LINES } from "@/test/fixtures";
+import { press, stubLayout } from "@/test/keyboard";
+import { renderWithProviders } from "@/test/render";
+
+function renderCart(lines: CartLine[]) {
+  const handlers = {
+    onClose: vi.fn(),
+    onUpdateQuantity: vi.fn(),
+    onRemove: vi.fn(),
+    onClear: vi.fn(),
+    onEnquirySent: vi.fn(),
+  };
+  renderWithProviders(
+    <CartDrawer
+      open
+      lines={lines}
+      count={countCartItems(lines)}
+      enquiries={[]}
+      {...handlers}
+    />
+  );
+  return handlers;
+}
+
+describe("CartDrawer", () => {
+  it("has no axe violations", async () => {
+    renderCart(CART_LINES);
+    expect(await axeViolations()).toEqual([]);
+  });
+
+  it("has no axe violations when empty", async () => {
+    renderCart([]);
+    expect(await axeViolations()).toEqual([]);
+  });
+
+  it("has no axe violations on the checkout form with errors shown", async () => {
+    renderCart(CART_LINES);
+    fireEvent.click(screen.getByRole("button", { name: "Request to Order" }));
+    fireEvent.submit(screen.getByLabelText("Name").closest("form")!);
+    expect(screen.getByLabelText("Name").getAttribute("aria-invalid")).toBe(
+      "true"
+    );
+    expect(await axeViolations()).toEqual([]);
+  });
+
+  it("names the quantity and remove buttons after the piece they change", () => {
+    const { onUpdateQuantity, onRemove } = renderCart(CART_LINES);
+    const [silk, cotton] = CART_LINES;
+
+    fireEvent.click(
+      screen.getByRole("button", { name: `Increase quantity of ${silk.name}` })
+    );
+    expect(onUpdateQuantity).toHaveBeenLastCalledWith(silk.itemId, 2);
+
+    fireEvent.click(
+      screen.getByRole("button", {
+        name: `Decrease quantity of ${cotton.name}`,
+      })
+    );
+    expect(onUpdateQuantity).toHaveBeenLastCalledWith(cotton.itemId, 1);
+
+    fireEvent.click(
+      screen.getByRole("button", { name: `Remove ${cotton.name} from cart` })
+    );
+    expect(onRemove).toHaveBeenCalledWith(cotton.itemId);
+  });
+
+  describe("keyboard", () => {
+    beforeEach(stubLayout);
+
+    it("moves focus into the drawer and keeps Tab inside it", () => {
+      renderCart(CART_LINES);
+      const dialog = screen.getByRole("dialog");
+      const close = screen.getByRole("button", { name: "Close cart" });
+      expect(document.activeElement).toBe(close);
+
+      press("Tab", { shiftKey: true });
+      const last = document.activeElement as HTMLElement;
+      expect(last).not.toBe(close);
+      expect(dialog.contains(last)).toBe(true);
+
+      press("Tab");
+      expect(document.activeElement).toBe(close);
+    });
+
+    it("closes on Escape", () => {
+      const { onClose } = renderCart(CART_LINES);
+      press("Escape");
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Minus, Plus, ShoppingBag, Trash2, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { EnquiryForm, EnquirySent } from "@/components/enquiry-checkout";
+import { ResponsiveImage } from "@/components/responsive-image";
+import { useEscapeKey } from "@/hooks/use-escape-key";
+import { useFocusTrap } from "@/hooks/use-focus-trap";
+import { useI18n } from "@/hooks/use-i18n";
+import { useScrollLock } from "@/hooks/use-scroll-lock";
+import {
+  cartSubtotal,
+  countCartItems,
+  MAX_LINE_QUANTITY,
+  type CartLine,
+} from "@/lib/cart";
+import { EMPTY_CONTACT, type Enquiry } from "@/lib/enquiry";
+import { IMAGE_SIZES } from "@/lib/images";
+
+interface CartDrawerProps {
+  open: boolean;
+  lines: CartLine[];
+  count: number;
+  onClose: () => void;
+  onUpdateQuantity: (itemId: string, quantity: number) => void;
+  onRemove: (itemId: string) => void;
+  onClear: () => void;
+  /** Saved enquiries, newest first. */
+  enquiries: Enquiry[];
+  onEnquirySent: (enquiry: Enquiry) => void;
+}
+
+type CartStep =
+  { name: "cart" } | { name: "checkout" } | { name: "sent"; enquiry: Enquiry };
+
+const CART_STEP: CartStep = { name: "cart" };
+const RECENT_ENQUIRIES_SHOWN = 3;
+
+export function CartDrawer({
+  open,
+  lines,
+  count,
+  onClose,
+  onUpdateQuantity,
+  onRemove,
+  onClear,
+  enquiries,
+  onEnquirySent,
+}: CartDrawerProps) {
+  const { t, formatNumber, formatPrice, formatDate } = useI18n();
+  const { subtotal, hasUnpriced } = cartSubtotal(lines);
+  const drawerRef = useRef<HTMLDivElement>(null);
+
+  // Every time the drawer opens it starts on the cart, not on the last
+  // checkout step it was closed from.
+  const [step, setStep] = useState<CartStep>(CART_STEP);
+  const [wasOpen, setWasOpen] = useState(open);
+  if (open !== wasOpen) {
+    setWasOpen(open);
+    if (open) setStep(CART_STEP);
+  }
+  // The cart can empty under the form, e.g. from another tab.
+  if (step.name === "checkout" && lines.length === 0) setStep(CART_STEP);
+
+  function handleSent(enquiry: Enquiry) {
+    setStep({ name: "sent", enquiry });
+    onEnquirySent(enquiry);
+  }
+
+  const title =
+    step.name === "checkout"
+      ? t("checkout.title")
+      : step.name === "sent"
+        ? t("confirm.heading")
+        : t("cart.title", { count });
+
+  useFocusTrap(drawerRef, open);
+  useScrollLock(open);
+
+  useEscapeKey(onClose, open);
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <motion.div
+            ref={drawerRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby="cart-drawer-title"
+            className="absolute right-0 top-0 h-full w-full max-w-md bg-background shadow-2xl flex flex-col"
+            initial={{ x: "100%" }}
+            animate={{ x: 0 }}
+            exit={{ x: "100%" }}
+            transition={{ type: "tween", duration: 0.3 }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-6 h-16 border-b border-border">
+              <div className="flex items-center gap-2">
+                <ShoppingBag className="w-5 h-5 text-primary" />
+                <h2 id="cart-drawer-title" className="text-lg font-semibold">
+                  {title}
+                </h2>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onClose}
+                aria-label={t("cart.close")}
+              >
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+
+            {step.name === "sent" ? (
+              <EnquirySent enquiry={step.enquiry} onDone={onClose} />
+            ) : step.name === "checkout" ? (
+              <EnquiryForm
+                lines={lines}
+                initialContact={
+                  enquiries[0]
+                    ? { ...enquiries[0].contact, notes: "" }
+                    : EMPTY_CONTACT
+                }
+                onBack={() => setStep(CART_STEP)}
+                onSent={handleSent}
+              />
+            ) : lines.length === 0 ? (
+              <div className="flex-1 flex flex-col items-center justify-center gap-4 px-6 text-center">
+                <ShoppingBag className="w-12 h-12 text-muted-foreground" />
+                <p className="text-muted-foreground">{t("cart.empty")}</p>
+                <Button variant="outline" onClick={onClose}>
+                  {t("cart.continue")}
+                </Button>
+                {enquiries.length > 0 && (
+                  <section
+                    aria-labelledby="cart-enquiries-title"
+                    className="w-full mt-6 text-left"
+                  >
+                    <h3
+                      id="cart-enquiries-title"
+                      className="text-sm font-medium mb-2"
+                    >
+                      {t("enquiry.recent")}
+                    </h3>
+                    <ul className="divide-y divide-border rounded-lg border border-border text-sm">
+                      {enquiries
+                        .slice(0, RECENT_ENQUIRIES_SHOWN)
+                        .map((enquiry) => (
+                          <li
+                            key={enquiry.reference}
+                            className="flex items-center justify-between gap-4 px-4 py-2"
+                          >
+                            <span className="font-mono">
+                              {enquiry.reference}
+                            </span>
+                            <span className="text-muted-foreground">
+                              {t("enquiry.summary", {
+                                date: formatDate(new Date(enquiry.createdAt)),
+                                count: countCartItems(enquiry.lines),
+                              })}
+                            </span>
+                          </li>
+                        ))}
+                    </ul>
+                  </section>
+                )}
+              </div>
+            ) : (
+              <>
+                <ul className="flex-1 overflow-y-auto divide-y divide-border">
+                  {lines.map((line) => (
+                    <li key={line.itemId} className="flex gap-4 px-6 py-4">
+                      <ResponsiveImage
+                        src={line.image}
+                        alt={line.name}
+                        reportId={line.itemId}
+                        sizes={IMAGE_SIZES.thumbnail}
+                        fallbackWidth={240}
+                        maxWidth={240}
+                        wrapperClassName="w-20 h-28 rounded-md flex-shrink-0"
+                        className="w-full h-full object-cover"
+                      />
+                      <div className="flex-1 min-w-0 space-y-2">
+                        <div>
+                          <p className="font-medium line-clamp-2">
+                            {line.name}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {line.categoryName} · {line.subfolderName}
+                          </p>
+                          {line.price !== undefined && (
+                            <p className="text-sm font-semibold text-primary">
+                              {formatPrice(line.price * line.quantity)}
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() =>
+                                onUpdateQuantity(line.itemId, line.quantity - 1)
+                              }
+                              aria-label={t("cart.decrease", {
+                                name: line.name,
+                              })}
+                            >
+                              <Minus className="w-3 h-3" />
+                            </Button>
+                            <span className="w-6 text-center text-sm font-medium">
+                              {formatNumber(line.quantity)}
+                            </span>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              disabled={line.quantity >= MAX_LINE_QUANTITY}
+                              onClick={() =>
+                                onUpdateQuantity(line.itemId, line.quantity + 1)
+                              }
+                              aria-label={t("cart.increase", {
+                                name: line.name,
+                              })}
+                            >
+                              <Plus className="w-3 h-3" />
+                            </Button>
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onRemove(line.itemId)}
+                            aria-label={t("cart.remove", { name: line.name })}
+                            className="hover:bg-destructive/10 hover:text-destructive"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+                <div className="border-t border-border px-6 py-4 space-y-3">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {t("cart.totalPieces")}
+                    </span>
+                    <span className="font-semibold">{formatNumber(count)}</span>
+                  </div>
+                  {subtotal > 0 && (
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{t("cart.subtotal")}</span>
+                      <span className="text-lg font-bold text-primary">
+                        {formatPrice(subtotal)}
+                      </span>
+                    </div>
+                  )}
+                  {hasUnpriced && (
+                    <p className="text-xs text-muted-foreground">
+                      {t("cart.unpriced")}
+                    </p>
+                  )}
+                  <Button
+                    className="w-full"
+                    onClick={() => setStep({ name: "checkout" })}
+                  >
+                    <Send className="w-4 h-4 mr-2" />
+                    {t("checkout.start")}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onClear}
+                    className="w-full text-xs"
+                  >
+                    {t("cart.clear")}
+                  </Button>
+                </div>
+              </>
+            )}
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from "vitest";
+import { CatalogItemCard } from "@/components/catalog-item-card";
+import { axeViolations } from "@/test/axe";
+import { COTTON_SAREE, SILK_SAREE } from "@/test/fixtures";
+import { renderWithProviders } from "@/test/render";
+
+function renderCard(props: Partial<Parameters<typeof CatalogItemCard>[0]>) {
+  return renderWithProviders(
+    <CatalogItemCard
+      item={SILK_SAREE}
+      index={0}
+      isFavorite={false}
+      onToggleFavorite={vi.fn()}
+      onOpen={vi.fn()}
+      onOpenDetails={vi.fn()}
+      onAddToCart={vi.fn()}
+      onShare={vi.fn()}
+      {...props}
+    />
+  );
+}
+
+describe("CatalogItemCard", () => {
+  it("has no axe violations", async () => {
+    const { container } = renderCard({});
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it("has no axe violations for a favourite without an image", async () => {
+    const { container } = renderCard({
+      item: COTTON_SAREE,
+      isFavorite: true,
+      highlight: "cotton",
+    });
+    expect(await axeViolations(container)).toEqual([]);
+  });
+});
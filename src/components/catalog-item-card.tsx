@@ -0,0 +1,201 @@
+import type { ReactNode } from "react";
+import { motion } from "framer-motion";
+import { Heart, ShoppingBag, Eye, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Highlight } from "@/components/highlight";
+import { PriceTag } from "@/components/price-tag";
+import { ResponsiveImage } from "@/components/responsive-image";
+import { useI18n } from "@/hooks/use-i18n";
+import { stockLabel, type CatalogItem } from "@/lib/catalog";
+import { IMAGE_SIZES } from "@/lib/images";
+
+// Beyond this many cards the entrance stagger stops growing, otherwise the
+// last cards of a long list would appear seconds after the first.
+const MAX_STAGGER_STEPS = 8;
+
+interface CatalogItemCardProps {
+  item: CatalogItem;
+  /** Position used to stagger the entrance animation. */
+  index: number;
+  isFavorite: boolean;
+  /** Search query whose matches are highlighted in the title. */
+  highlight?: string;
+  onToggleFavorite: () => void;
+  onOpen: () => void;
+  onOpenDetails: () => void;
+  onAddToCart: () => void;
+  onShare: () => void;
+}
+
+export function CatalogItemCard({
+  item,
+  index,
+  isFavorite,
+  highlight,
+  onToggleFavorite,
+  onOpen,
+  onOpenDetails,
+  onAddToCart,
+  onShare,
+}: CatalogItemCardProps) {
+  const { t } = useI18n();
+  const summary = [item.fabric, item.colour].filter(Boolean).join(" · ");
+  const stock = stockLabel(item.stock, t);
+  const soldOut = item.stock !== undefined && item.stock <= 0;
+  const favoriteLabel = t(
+    isFavorite ? "item.removeNamedFromWishlist" : "item.addNamedToWishlist",
+    { name: item.name }
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.9 }}
+      animate={{ opacity: 1, scale: 1 }}
+      transition={{
+        duration: 0.4,
+        delay: Math.min(index, MAX_STAGGER_STEPS) * 0.05,
+      }}
+      whileHover={{ y: -8 }}
+      className="group"
+    >
+      <Card className="overflow-hidden hover:shadow-2xl transition-all duration-500 border-0 bg-card/80 backdrop-blur-sm">
+        <div className="relative aspect-[3/4] overflow-hidden">
+          <button
+            type="button"
+            onClick={onOpen}
+            aria-label={t("item.viewNamedFullScreen", { name: item.name })}
+            className="block w-full h-full cursor-pointer outline-none focus-visible:ring-[3px] focus-visible:ring-inset focus-visible:ring-ring/50"
+          >
+            <ResponsiveImage
+              src={item.image}
+              alt=""
+              reportId={item.id}
+              sizes={IMAGE_SIZES.card}
+              fallbackWidth={480}
+              placeholderColor={item.dominantColor}
+              wrapperClassName="w-full h-full"
+              className="w-full h-full object-cover group-hover:scale-110 transition-all duration-700"
+            />
+          </button>
+          {/* The overlays let clicks through to the image button; they also
+              show while a button inside has keyboard focus. */}
+          <div className="pointer-events-none absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-300" />
+          <div className="pointer-events-none absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-300">
+            <div className="pointer-events-auto flex gap-3">
+              <Button
+                size="sm"
+                variant="secondary"
+                className="backdrop-blur-sm bg-background/80"
+                aria-label={favoriteLabel}
+                aria-pressed={isFavorite}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleFavorite();
+                }}
+              >
+                <Heart
+                  className={`w-4 h-4 ${
+                    isFavorite ? "fill-current text-red-500" : ""
+                  }`}
+                />
+              </Button>
+              <Button size="sm" className="backdrop-blur-sm" onClick={onOpen}>
+                <Eye className="w-4 h-4 mr-2" />
+                {t("item.view")}
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                className="backdrop-blur-sm bg-background/80"
+                aria-label={t("item.share", { name: item.name })}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onShare();
+                }}
+              >
+                <Share2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+          {stock && (
+            <Badge
+              variant={soldOut ? "destructive" : "default"}
+              className={`absolute top-4 left-4 backdrop-blur-sm ${
+                soldOut ? "" : "bg-primary/90"
+              }`}
+            >
+              {stock}
+            </Badge>
+          )}
+        </div>
+        <CardContent className="p-6 space-y-4">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <h4 className="font-semibold text-lg mb-2 line-clamp-2 text-balance">
+                <button
+                  type="button"
+                  onClick={onOpenDetails}
+                  className="text-left rounded-sm hover:text-primary transition-colors outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+                >
+                  <Highlight text={item.name} query={highlight} />
+                </button>
+              </h4>
+              {summary && (
+                <p className="text-sm text-muted-foreground">{summary}</p>
+              )}
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={onToggleFavorite}
+              aria-label={favoriteLabel}
+              aria-pressed={isFavorite}
+              className="hover:bg-red-50 hover:text-red-500 dark:hover:bg-red-950/40"
+            >
+              <Heart
+                className={`w-4 h-4 ${
+                  isFavorite ? "fill-current text-red-500" : ""
+                }`}
+              />
+            </Button>
+          </div>
+          <div className="pt-2 border-t border-border/50">
+            <div className="flex items-center justify-between">
+              <PriceTag price={item.price} mrp={item.mrp} className="text-lg" />
+              <Button
+                size="sm"
+                className="gap-2"
+                onClick={onAddToCart}
+                disabled={soldOut}
+              >
+                <ShoppingBag className="w-4 h-4" />
+                {t(soldOut ? "item.soldOut" : "item.addToCart")}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
+
+interface CatalogGridProps {
+  viewMode: "grid" | "list";
+  children: ReactNode;
+}
+
+export function CatalogGrid({ viewMode, children }: CatalogGridProps) {
+  return (
+    <div
+      className={`grid gap-8 ${
+        viewMode === "grid"
+          ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4"
+          : "grid-cols-1 md:grid-cols-2 gap-6"
+      }`}
+    >
+      {children}
+    </div>
+  );
+}
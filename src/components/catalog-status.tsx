@@ -0,0 +1,84 @@
+import { useEffect } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { WifiOff, RefreshCw, Sparkles, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/hooks/use-i18n";
+import { NetworkError, TimeoutError } from "@/lib/api-errors";
+
+interface OfflineBannerProps {
+  error: unknown;
+  savedAt: Date | null;
+  onRetry: () => void;
+}
+
+/** Shown instead of the error card when a saved catalog is on screen. */
+export function OfflineBanner({ error, savedAt, onRetry }: OfflineBannerProps) {
+  const { t, formatDate } = useI18n();
+  const offline =
+    !navigator.onLine ||
+    error instanceof NetworkError ||
+    error instanceof TimeoutError;
+  const notice = savedAt
+    ? t(offline ? "status.offlineSince" : "status.staleSince", {
+        date: formatDate(savedAt),
+      })
+    : t(offline ? "status.offline" : "status.stale");
+
+  return (
+    <div className="bg-muted border-b border-border">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between gap-4 text-sm">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <WifiOff className="w-4 h-4 flex-shrink-0" />
+          <span>{notice}</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onRetry} className="gap-2">
+          <RefreshCw className="w-4 h-4" />
+          {t("action.retry")}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+interface UpdatedToastProps {
+  show: boolean;
+  onDismiss: () => void;
+}
+
+const UPDATED_TOAST_MS = 5000;
+
+/** Subtle notice that background revalidation brought in new pieces. */
+export function UpdatedToast({ show, onDismiss }: UpdatedToastProps) {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (!show) return;
+    const timer = setTimeout(onDismiss, UPDATED_TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [show, onDismiss]);
+
+  return (
+    <AnimatePresence>
+      {show && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 rounded-full bg-primary text-primary-foreground pl-4 pr-2 py-2 shadow-lg"
+        >
+          <Sparkles className="w-4 h-4" />
+          <span className="text-sm font-medium">{t("status.updated")}</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onDismiss}
+            aria-label={t("action.dismiss")}
+            className="h-7 w-7 p-0 rounded-full hover:bg-primary-foreground/20 hover:text-primary-foreground"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,278 @@
+import { useId, useRef, useState, type FormEvent } from "react";
+import { ArrowLeft, CheckCircle2, MessageCircle, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useI18n } from "@/hooks/use-i18n";
+import { ENQUIRIES_ENABLED, submitEnquiry } from "@/lib/api";
+import { cartSubtotal, countCartItems, type CartLine } from "@/lib/cart";
+import {
+  createEnquiry,
+  enquiryPayload,
+  MAX_NAME_LENGTH,
+  MAX_NOTES_LENGTH,
+  validateEnquiryContact,
+  whatsAppEnquiryUrl,
+  type Enquiry,
+  type EnquiryContact,
+} from "@/lib/enquiry";
+
+interface EnquiryFormProps {
+  lines: CartLine[];
+  /** Prefills the form, e.g. from the customer's last enquiry. */
+  initialContact: EnquiryContact;
+  onBack: () => void;
+  onSent: (enquiry: Enquiry) => void;
+}
+
+export function EnquiryForm({
+  lines,
+  initialContact,
+  onBack,
+  onSent,
+}: EnquiryFormProps) {
+  const i18n = useI18n();
+  const { t, formatPrice } = i18n;
+  const [contact, setContact] = useState(initialContact);
+  const [showErrors, setShowErrors] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [sendFailed, setSendFailed] = useState(false);
+  const nameRef = useRef<HTMLInputElement>(null);
+  const phoneRef = useRef<HTMLInputElement>(null);
+  const id = useId();
+
+  const errors = validateEnquiryContact(contact);
+  const visibleErrors = showErrors ? errors : {};
+  const { subtotal } = cartSubtotal(lines);
+
+  function update(field: keyof EnquiryContact, value: string) {
+    setContact((prev) => ({ ...prev, [field]: value }));
+  }
+
+  /** Reveals the field errors and focuses the first invalid field. */
+  function checkContact() {
+    if (!errors.name && !errors.phone) return true;
+    setShowErrors(true);
+    (errors.name ? nameRef : phoneRef).current?.focus();
+    return false;
+  }
+
+  function sendOnWhatsApp() {
+    if (sending || !checkContact()) return;
+    const enquiry = createEnquiry(lines, contact, "whatsapp");
+    window.open(whatsAppEnquiryUrl(enquiry, i18n), "_blank", "noopener");
+    onSent(enquiry);
+  }
+
+  async function sendToShop() {
+    if (sending || !checkContact()) return;
+    const enquiry = createEnquiry(lines, contact, "api");
+    setSending(true);
+    setSendFailed(false);
+    try {
+      const reference = await submitEnquiry(
+        enquiryPayload(enquiry, i18n.locale)
+      );
+      onSent(reference ? { ...enquiry, reference } : enquiry);
+    } catch (err) {
+      console.warn("Could not send the enquiry:", err);
+      setSendFailed(true);
+      setSending(false);
+    }
+  }
+
+  function handleSubmit(e: FormEvent) {
+    e.preventDefault();
+    if (ENQUIRIES_ENABLED) void sendToShop();
+    else sendOnWhatsApp();
+  }
+
+  function fieldProps(field: "name" | "phone") {
+    const error = visibleErrors[field];
+    return {
+      id: `${id}-${field}`,
+      "aria-invalid": error ? true : undefined,
+      "aria-describedby": error ? `${id}-${field}-error` : undefined,
+    };
+  }
+
+  function fieldError(field: "name" | "phone") {
+    const error = visibleErrors[field];
+    return (
+      error && (
+        <p id={`${id}-${field}-error`} className="text-xs text-destructive">
+          {t(error)}
+        </p>
+      )
+    );
+  }
+
+  return (
+    <form
+      noValidate
+      onSubmit={handleSubmit}
+      className="flex-1 flex flex-col min-h-0"
+    >
+      <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={onBack}
+          className="-ml-2"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          {t("checkout.back")}
+        </Button>
+        <p className="text-sm text-muted-foreground">{t("checkout.intro")}</p>
+
+        <div className="space-y-1.5">
+          <label htmlFor={`${id}-name`} className="text-sm font-medium">
+            {t("checkout.name")}
+          </label>
+          <Input
+            ref={nameRef}
+            {...fieldProps("name")}
+            value={contact.name}
+            onChange={(e) => update("name", e.target.value)}
+            autoComplete="name"
+            maxLength={MAX_NAME_LENGTH}
+            required
+          />
+          {fieldError("name")}
+        </div>
+
+        <div className="space-y-1.5">
+          <label htmlFor={`${id}-phone`} className="text-sm font-medium">
+            {t("checkout.phone")}
+          </label>
+          <Input
+            ref={phoneRef}
+            {...fieldProps("phone")}
+            type="tel"
+            inputMode="tel"
+            value={contact.phone}
+            onChange={(e) => update("phone", e.target.value)}
+            autoComplete="tel"
+            placeholder="+91 98765 43210"
+            required
+          />
+          {fieldError("phone")}
+        </div>
+
+        <div className="space-y-1.5">
+          <label htmlFor={`${id}-notes`} className="text-sm font-medium">
+            {t("checkout.notes")}
+          </label>
+          <textarea
+            id={`${id}-notes`}
+            value={contact.notes}
+            onChange={(e) => update("notes", e.target.value)}
+            maxLength={MAX_NOTES_LENGTH}
+            rows={4}
+            placeholder={t("checkout.notesPlaceholder")}
+            className="w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs outline-none placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30 resize-none"
+          />
+        </div>
+      </div>
+
+      <div className="border-t border-border px-6 py-4 space-y-3">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">
+            {t("checkout.summary", { count: countCartItems(lines) })}
+          </span>
+          {subtotal > 0 && (
+            <span className="font-semibold text-primary">
+              {formatPrice(subtotal)}
+            </span>
+          )}
+        </div>
+        {sendFailed && (
+          <p role="alert" className="text-sm text-destructive">
+            {t("checkout.error.send")}
+          </p>
+        )}
+        {ENQUIRIES_ENABLED ? (
+          <>
+            <Button type="submit" className="w-full" disabled={sending}>
+              <Send className="w-4 h-4 mr-2" />
+              {sending ? t("checkout.sending") : t("checkout.submit")}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              disabled={sending}
+              onClick={sendOnWhatsApp}
+            >
+              <MessageCircle className="w-4 h-4 mr-2" />
+              {t("checkout.whatsApp")}
+            </Button>
+          </>
+        ) : (
+          <Button type="submit" className="w-full">
+            <MessageCircle className="w-4 h-4 mr-2" />
+            {t("checkout.whatsApp")}
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+interface EnquirySentProps {
+  enquiry: Enquiry;
+  onDone: () => void;
+}
+
+export function EnquirySent({ enquiry, onDone }: EnquirySentProps) {
+  const i18n = useI18n();
+  const { t, formatNumber, formatDate } = i18n;
+  const viaWhatsApp = enquiry.channel === "whatsapp";
+
+  return (
+    <div className="flex-1 flex flex-col items-center justify-center gap-4 px-6 text-center">
+      <CheckCircle2 className="w-12 h-12 text-primary" />
+      <div className="space-y-2">
+        <h3 className="text-xl font-semibold">
+          {viaWhatsApp ? t("confirm.whatsAppTitle") : t("confirm.title")}
+        </h3>
+        <p className="text-muted-foreground">
+          {viaWhatsApp
+            ? t("confirm.whatsAppMessage")
+            : t("confirm.message", {
+                name: enquiry.contact.name,
+                phone: enquiry.contact.phone,
+              })}
+        </p>
+      </div>
+      <dl className="w-full rounded-lg border border-border bg-muted/40 px-4 py-3 text-sm space-y-1">
+        <div className="flex justify-between gap-4">
+          <dt className="text-muted-foreground">{t("confirm.reference")}</dt>
+          <dd className="font-mono font-semibold">{enquiry.reference}</dd>
+        </div>
+        <div className="flex justify-between gap-4">
+          <dt className="text-muted-foreground">{t("confirm.date")}</dt>
+          <dd>{formatDate(new Date(enquiry.createdAt))}</dd>
+        </div>
+        <div className="flex justify-between gap-4">
+          <dt className="text-muted-foreground">{t("cart.totalPieces")}</dt>
+          <dd>{formatNumber(countCartItems(enquiry.lines))}</dd>
+        </div>
+      </dl>
+      <p className="text-xs text-muted-foreground">{t("confirm.saved")}</p>
+      {viaWhatsApp && (
+        <Button variant="outline" asChild>
+          <a
+            href={whatsAppEnquiryUrl(enquiry, i18n)}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            <MessageCircle className="w-4 h-4 mr-2" />
+            {t("confirm.openWhatsApp")}
+          </a>
+        </Button>
+      )}
+      <Button onClick={onDone}>{t("confirm.done")}</Button>
+    </div>
+  );
+}
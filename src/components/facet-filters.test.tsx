@@ -0,0 +1,61 @@
+import { describe, expect, it, vi } from "vitest";
+import { screen } from "@testing-library/react";
+import { FacetFilters } from "@/components/facet-filters";
+import {
+  computeFacetCounts,
+  EMPTY_FACETS,
+  priceBounds,
+  type FacetSelection,
+} from "@/lib/facets";
+import { createI18n } from "@/lib/i18n";
+import { axeViolations } from "@/test/axe";
+import { COTTON_SAREE, SILK_SAREE } from "@/test/fixtures";
+import { renderWithProviders } from "@/test/render";
+
+const ITEMS = [
+  SILK_SAREE,
+  COTTON_SAREE,
+  { ...SILK_SAREE, id: "b", price: 4999 },
+];
+
+function renderFilters(
+  selection: FacetSelection,
+  counts = computeFacetCounts(ITEMS, selection)
+) {
+  return renderWithProviders(
+    <FacetFilters
+      counts={counts}
+      bounds={priceBounds(ITEMS)}
+      selection={selection}
+      onToggle={vi.fn()}
+      onPriceChange={vi.fn()}
+    />
+  );
+}
+
+describe("FacetFilters", () => {
+  it("has no axe violations", async () => {
+    const { container } = renderFilters(EMPTY_FACETS);
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it("has no axe violations with values and a price range selected", async () => {
+    const { container } = renderFilters({
+      ...EMPTY_FACETS,
+      fabric: ["Silk"],
+      priceMin: 5000,
+    });
+    expect(await axeViolations(container)).toEqual([]);
+  });
+
+  it("formats option counts like every other number", () => {
+    const counts = computeFacetCounts(ITEMS, EMPTY_FACETS);
+    counts.fabric = counts.fabric.map((option) => ({ ...option, count: 1234 }));
+    renderFilters(EMPTY_FACETS, counts);
+    const formatted = createI18n("en").formatNumber(1234);
+    expect(formatted).not.toBe("1234");
+    expect(
+      screen.getByRole("button", { name: `Silk ${formatted} sarees` })
+    ).toBeDefined();
+  });
+});
@@ -0,0 +1,141 @@
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/hooks/use-i18n";
+import {
+  FACETS,
+  type FacetCounts,
+  type FacetKey,
+  type FacetSelection,
+} from "@/lib/facets";
+
+interface FacetFiltersProps {
+  counts: FacetCounts;
+  /** Price range of the current result set; null hides the slider. */
+  bounds: { min: number; max: number } | null;
+  selection: FacetSelection;
+  onToggle: (key: FacetKey, value: string) => void;
+  onPriceChange: (min: number | undefined, max: number | undefined) => void;
+}
+
+export function FacetFilters({
+  counts,
+  bounds,
+  selection,
+  onToggle,
+  onPriceChange,
+}: FacetFiltersProps) {
+  const { t, formatNumber } = useI18n();
+  const groups = FACETS.filter(({ key }) => counts[key].length > 0);
+  const showPrice = bounds !== null && bounds.max > bounds.min;
+  if (groups.length === 0 && !showPrice) return null;
+
+  return (
+    <div className="space-y-4">
+      {groups.map(({ key, labelKey }) => (
+        <div key={key} className="space-y-2">
+          <p
+            id={`facet-${key}`}
+            className="text-sm font-medium text-muted-foreground"
+          >
+            {t(labelKey)}
+          </p>
+          <div
+            role="group"
+            aria-labelledby={`facet-${key}`}
+            className="flex gap-2 flex-wrap"
+          >
+            {counts[key].map(({ value, count, selected }) => (
+              <Button
+                key={value}
+                variant={selected ? "default" : "outline"}
+                size="sm"
+                disabled={!selected && count === 0}
+                onClick={() => onToggle(key, value)}
+                aria-pressed={selected}
+                className="gap-2"
+              >
+                {value}
+                <span className="text-xs opacity-70">
+                  {formatNumber(count)}
+                  <span className="sr-only">
+                    {" "}
+                    {t("facet.sarees", { count })}
+                  </span>
+                </span>
+                {selected && <X className="w-3 h-3" />}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {showPrice && (
+        <PriceRange
+          bounds={bounds}
+          min={selection.priceMin}
+          max={selection.priceMax}
+          onChange={onPriceChange}
+        />
+      )}
+    </div>
+  );
+}
+
+interface PriceRangeProps {
+  bounds: { min: number; max: number };
+  min?: number;
+  max?: number;
+  onChange: (min: number | undefined, max: number | undefined) => void;
+}
+
+/** Two range inputs; a thumb resting on its bound means "no limit". */
+function PriceRange({ bounds, min, max, onChange }: PriceRangeProps) {
+  const { t, formatPrice } = useI18n();
+  const step = Math.max(1, Math.round((bounds.max - bounds.min) / 100));
+  const low = Math.min(Math.max(min ?? bounds.min, bounds.min), bounds.max);
+  const high = Math.max(Math.min(max ?? bounds.max, bounds.max), low);
+
+  function commit(nextLow: number, nextHigh: number) {
+    // Steps count up from the minimum, so the top thumb may stop just short
+    // of the real maximum; treat the last step as the bound too.
+    onChange(
+      nextLow <= bounds.min ? undefined : nextLow,
+      nextHigh + step > bounds.max ? undefined : nextHigh
+    );
+  }
+
+  return (
+    <div className="space-y-2 max-w-md">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium text-muted-foreground">
+          {t("price.label")}
+        </p>
+        <p className="text-sm font-medium">
+          {t("price.range", { min: formatPrice(low), max: formatPrice(high) })}
+        </p>
+      </div>
+      <div className="flex items-center gap-4">
+        <input
+          type="range"
+          aria-label={t("price.min")}
+          min={bounds.min}
+          max={bounds.max}
+          step={step}
+          value={low}
+          onChange={(e) => commit(Math.min(Number(e.target.value), high), high)}
+          className="flex-1 accent-primary"
+        />
+        <input
+          type="range"
+          aria-label={t("price.max")}
+          min={bounds.min}
+          max={bounds.max}
+          step={step}
+          value={high}
+          onChange={(e) => commit(low, Math.max(Number(e.target.value), low))}
+          className="flex-1 accent-primary"
+        />
+      </div>
+    </div>
+  );
+}
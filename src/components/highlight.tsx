@@ -0,0 +1,29 @@
+import { useMemo } from "react";
+import { highlightMatches } from "@/lib/search";
+
+interface HighlightProps {
+  text: string;
+  query?: string;
+}
+
+/** Renders `text` with the parts matching the search query marked. */
+export function Highlight({ text, query = "" }: HighlightProps) {
+  const segments = useMemo(() => highlightMatches(text, query), [text, query]);
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark
+            key={index}
+            className="bg-primary/20 text-inherit rounded-sm px-0.5 -mx-0.5"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          segment.text
+        )
+      )}
+    </>
+  );
+}
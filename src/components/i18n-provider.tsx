@@ -0,0 +1,36 @@
+import { useEffect, useMemo, type ReactNode } from "react";
+import { I18nContext } from "@/hooks/use-i18n";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import {
+  createI18n,
+  loadLocale,
+  LOCALE_STORAGE_KEY,
+  saveLocale,
+} from "@/lib/i18n";
+
+interface I18nProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Owns the interface language: persists the choice, follows changes made
+ * in other tabs and keeps <html lang> in step for screen readers and fonts.
+ */
+export function I18nProvider({ children }: I18nProviderProps) {
+  const [locale, setLocale] = usePersistentState(
+    LOCALE_STORAGE_KEY,
+    loadLocale,
+    saveLocale
+  );
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo(
+    () => ({ ...createI18n(locale), setLocale }),
+    [locale, setLocale]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
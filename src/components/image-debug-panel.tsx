@@ -0,0 +1,84 @@
+import { ImageOff, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useBrokenImages } from "@/hooks/use-broken-images";
+import { useI18n } from "@/hooks/use-i18n";
+import { clearBrokenImages } from "@/lib/broken-images";
+
+interface ImageDebugPanelProps {
+  onClose: () => void;
+}
+
+/**
+ * Lists images that failed to load this session. Opened with ?debug=images
+ * so catalog maintainers can find Drive files with broken sharing.
+ */
+export function ImageDebugPanel({ onClose }: ImageDebugPanelProps) {
+  const broken = useBrokenImages();
+  const { t } = useI18n();
+
+  return (
+    <aside className="fixed bottom-4 left-4 z-[70] w-80 max-h-[50vh] flex flex-col rounded-lg border border-border bg-background/95 backdrop-blur-sm shadow-2xl text-sm">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-border">
+        <div className="flex items-center gap-2 font-medium">
+          <ImageOff className="w-4 h-4 text-destructive" />
+          {t("debug.brokenImages", { count: broken.length })}
+        </div>
+        <div className="flex items-center gap-1">
+          {broken.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                navigator.clipboard
+                  ?.writeText(broken.map((image) => image.id).join("\n"))
+                  .catch(() => {})
+              }
+              className="text-xs"
+            >
+              {t("debug.copyIds")}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            aria-label={t("action.close")}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+      {broken.length === 0 ? (
+        <p className="px-4 py-3 text-muted-foreground">
+          {t("debug.noBrokenImages")}
+        </p>
+      ) : (
+        <>
+          <ul className="flex-1 overflow-y-auto divide-y divide-border">
+            {broken.map((image) => (
+              <li key={image.id} className="px-4 py-2 space-y-0.5">
+                <p className="font-mono text-xs break-all">{image.id}</p>
+                <a
+                  href={image.src}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="block text-xs text-muted-foreground truncate hover:text-primary"
+                >
+                  {image.src}
+                </a>
+              </li>
+            ))}
+          </ul>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={clearBrokenImages}
+            className="m-2 text-xs"
+          >
+            {t("debug.clearList")}
+          </Button>
+        </>
+      )}
+    </aside>
+  );
+}
@@ -0,0 +1,33 @@
+import { Languages } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import { isLocale, LOCALES } from "@/lib/i18n";
+import { cn } from "@/lib/utils";
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+/** Interface language picker; each language is listed in its own script. */
+export function LanguageSwitcher({ className }: LanguageSwitcherProps) {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div className={cn("relative inline-flex items-center", className)}>
+      <Languages className="absolute left-2.5 w-4 h-4 text-muted-foreground pointer-events-none" />
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) setLocale(e.target.value);
+        }}
+        aria-label={t("nav.language")}
+        className="h-8 rounded-full border border-border bg-muted pl-8 pr-3 text-sm outline-none focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+      >
+        {LOCALES.map(({ code, label }) => (
+          <option key={code} value={code} lang={code}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
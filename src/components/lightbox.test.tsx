@@ -0,0 +1,159 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { act, screen, waitFor } from "@testing-library/react";
+import { Lightbox } from "@/components/lightbox";
+import { ShareDialog } from "@/components/share-dialog";
+import type { CatalogItem } from "@/lib/catalog";
+import { DEFAULT_SLIDESHOW_SETTINGS } from "@/lib/slideshow";
+import { axeViolations } from "@/test/axe";
+import { COTTON_SAREE, SILK_SAREE } from "@/test/fixtures";
+import { press, stubLayout } from "@/test/keyboard";
+import { renderWithProviders } from "@/test/render";
+
+const onPrev = vi.fn();
+const onNext = vi.fn();
+const onClose = vi.fn();
+const onCloseShare = vi.fn();
+
+interface StackProps {
+  items?: CatalogItem[];
+  index: number;
+  sharing?: boolean;
+}
+
+/** The lightbox, optionally with the share dialog opened on top of it. */
+function Stack({
+  items = [SILK_SAREE, COTTON_SAREE],
+  index,
+  sharing = false,
+}: StackProps) {
+  return (
+    <>
+      <Lightbox
+        items={items}
+        index={index}
+        brokenIds={new Set()}
+        onSelect={vi.fn()}
+        onPrev={onPrev}
+        onNext={onNext}
+        onClose={onClose}
+        playing={false}
+        onPlayingChange={vi.fn()}
+        slideshowSettings={DEFAULT_SLIDESHOW_SETTINGS}
+        onSlideshowSettingsChange={vi.fn()}
+      />
+      <ShareDialog
+        item={sharing ? SILK_SAREE : null}
+        onClose={onCloseShare}
+        onNotice={vi.fn()}
+      />
+    </>
+  );
+}
+
+function renderLightbox(index: number) {
+  return renderWithProviders(<Stack index={index} />);
+}
+
+/** Opens the share dialog over an already open lightbox, as the app does. */
+function renderSharing() {
+  const result = renderLightbox(0);
+  result.rerender(<Stack index={0} sharing />);
+  const [lightbox, share] = screen.getAllByRole("dialog");
+  return { ...result, lightbox, share };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("Lightbox", () => {
+  it("has no axe violations", async () => {
+    renderLightbox(0);
+    expect(await axeViolations()).toEqual([]);
+  });
+
+  it("has no axe violations on a piece without an image", async () => {
+    renderLightbox(1);
+    expect(await axeViolations()).toEqual([]);
+  });
+
+  it("moves between pieces with the arrow keys", () => {
+    renderLightbox(0);
+    press("ArrowRight");
+    expect(onNext).toHaveBeenCalledTimes(1);
+    press("ArrowLeft");
+    expect(onPrev).toHaveBeenCalledTimes(1);
+  });
+
+  it("leaves the arrow keys to a focused form control", () => {
+    renderLightbox(0);
+    screen.getByRole("combobox", { name: "Seconds per slide" }).focus();
+    press("ArrowRight");
+    press("ArrowLeft");
+    expect(onNext).not.toHaveBeenCalled();
+    expect(onPrev).not.toHaveBeenCalled();
+  });
+
+  it("mounts only the thumbnails around the current piece", () => {
+    const items = Array.from({ length: 200 }, (_, i) => ({
+      ...SILK_SAREE,
+      id: `piece-${i}`,
+      name: `Piece ${i}`,
+    }));
+    renderWithProviders(<Stack items={items} index={100} />);
+    const thumbs = screen.getAllByRole("button", { name: /^Piece \d+$/ });
+    expect(thumbs).toHaveLength(31);
+    expect(thumbs[0]).toHaveProperty("ariaLabel", "Piece 85");
+    expect(
+      screen.getByRole("button", { name: "Piece 100", current: true })
+    ).toBeDefined();
+  });
+
+  describe("with the share dialog on top", () => {
+    beforeEach(stubLayout);
+
+    it("ignores the arrow keys", () => {
+      renderSharing();
+      press("ArrowRight");
+      press("ArrowLeft");
+      expect(onNext).not.toHaveBeenCalled();
+      expect(onPrev).not.toHaveBeenCalled();
+    });
+
+    it("closes only the share dialog on Escape", async () => {
+      const { rerender } = renderSharing();
+      press("Escape");
+      expect(onCloseShare).toHaveBeenCalledTimes(1);
+      expect(onClose).not.toHaveBeenCalled();
+
+      rerender(<Stack index={0} />);
+      // The share dialog stays on top until its exit animation is done and
+      // its effects have been cleaned up.
+      await waitFor(() =>
+        expect(screen.getAllByRole("dialog")).toHaveLength(1)
+      );
+      await act(async () => {});
+      press("Escape");
+      expect(onClose).toHaveBeenCalledTimes(1);
+      expect(onCloseShare).toHaveBeenCalledTimes(1);
+    });
+
+    it("keeps Tab inside the share dialog", () => {
+      const { lightbox, share } = renderSharing();
+      // The lightbox's own trap must not pull focus back, even for a moment.
+      const focusedLightbox = vi.fn();
+      lightbox.addEventListener("focusin", focusedLightbox);
+      const first = document.activeElement as HTMLElement;
+      expect(share.contains(first)).toBe(true);
+
+      press("Tab", { shiftKey: true });
+      const last = document.activeElement as HTMLElement;
+      expect(last).not.toBe(first);
+      expect(share.contains(last)).toBe(true);
+
+      press("Tab");
+      expect(document.activeElement).toBe(first);
+      expect(focusedLightbox).not.toHaveBeenCalled();
+    });
+  });
+});
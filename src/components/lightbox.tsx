@@ -0,0 +1,719 @@
+import { useEffect, useRef, useState, type PointerEvent } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import {
+  ChevronLeft,
+  ChevronRight,
+  ImageOff,
+  Maximize,
+  Minimize,
+  Pause,
+  Play,
+  Repeat,
+  X,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ResponsiveImage } from "@/components/responsive-image";
+import { useOverlayKeys } from "@/hooks/use-escape-key";
+import { useFocusTrap } from "@/hooks/use-focus-trap";
+import { useFullscreen } from "@/hooks/use-fullscreen";
+import { useI18n } from "@/hooks/use-i18n";
+import { useScrollLock } from "@/hooks/use-scroll-lock";
+import type { CatalogItem } from "@/lib/catalog";
+import { IMAGE_SIZES, preloadImage } from "@/lib/images";
+import {
+  SLIDESHOW_INTERACTION_PAUSE_MS,
+  SLIDESHOW_INTERVALS,
+  type SlideshowSettings,
+} from "@/lib/slideshow";
+
+const LIGHTBOX_IMAGE_WIDTH = 1440;
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+const DOUBLE_TAP_MS = 300;
+/** Horizontal travel, in px, that turns a drag into a swipe. */
+const SWIPE_DISTANCE = 60;
+
+interface LightboxProps {
+  items: CatalogItem[];
+  /** Position in `items` of the open piece; null closes the lightbox. */
+  index: number | null;
+  /** Item ids whose image failed to load (see broken-images). */
+  brokenIds: Set<string>;
+  onSelect: (index: number) => void;
+  onPrev: () => void;
+  onNext: () => void;
+  onClose: () => void;
+  /** Slideshow state lives with the page so a category loop can swap `items`. */
+  playing: boolean;
+  onPlayingChange: (playing: boolean) => void;
+  slideshowSettings: SlideshowSettings;
+  onSlideshowSettingsChange: (patch: Partial<SlideshowSettings>) => void;
+}
+
+export function Lightbox({ index, ...props }: LightboxProps) {
+  return (
+    <AnimatePresence>
+      {index !== null && props.items[index] && (
+        <LightboxDialog index={index} {...props} />
+      )}
+    </AnimatePresence>
+  );
+}
+
+interface LightboxDialogProps extends Omit<LightboxProps, "index"> {
+  index: number;
+}
+
+function LightboxDialog({
+  items,
+  index,
+  brokenIds,
+  onSelect,
+  onPrev,
+  onNext,
+  onClose,
+  playing,
+  onPlayingChange,
+  slideshowSettings,
+  onSlideshowSettingsChange,
+}: LightboxDialogProps) {
+  const { t } = useI18n();
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const item = items[index];
+  const imageMissing = !item.image || brokenIds.has(item.id);
+  const {
+    isFullscreen,
+    supported: fullscreenSupported,
+    toggle: toggleFullscreen,
+  } = useFullscreen(dialogRef);
+
+  useFocusTrap(dialogRef, true);
+  // One layer for all three keys, so a dialog opened over the lightbox (the
+  // share dialog) takes the arrows along with Escape.
+  useOverlayKeys(
+    { Escape: onClose, ArrowLeft: onPrev, ArrowRight: onNext },
+    true
+  );
+  useScrollLock(true);
+
+  // ---- Slideshow ----
+  // Interactions since the last automatic advance. Any touch, wheel or key
+  // press holds the current piece for longer so a customer looking closely
+  // isn't moved on mid-inspection.
+  const [holds, setHolds] = useState(0);
+  const slideDelay =
+    holds > 0
+      ? Math.max(slideshowSettings.intervalMs, SLIDESHOW_INTERACTION_PAUSE_MS)
+      : slideshowSettings.intervalMs;
+  const onNextRef = useRef(onNext);
+
+  useEffect(() => {
+    onNextRef.current = onNext;
+  }, [onNext]);
+
+  useEffect(() => {
+    if (!playing || items.length < 2) return;
+    const timer = window.setTimeout(() => {
+      setHolds(0);
+      onNextRef.current();
+    }, slideDelay);
+    return () => window.clearTimeout(timer);
+  }, [playing, index, holds, slideDelay, items.length]);
+
+  // Keep a counter tablet awake while the slideshow runs.
+  useEffect(() => {
+    if (!playing || !("wakeLock" in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let released = false;
+    navigator.wakeLock
+      .request("screen")
+      .then((lock) => {
+        if (released) lock.release().catch(() => {});
+        else sentinel = lock;
+      })
+      .catch(() => {});
+    return () => {
+      released = true;
+      sentinel?.release().catch(() => {});
+    };
+  }, [playing]);
+
+  function holdSlideshow() {
+    if (playing) setHolds((count) => count + 1);
+  }
+
+  function togglePlaying() {
+    setHolds(0);
+    onPlayingChange(!playing);
+  }
+
+  useEffect(() => {
+    if (!playing) return;
+    function onKeyDown() {
+      setHolds((count) => count + 1);
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [playing]);
+
+  // Warm the cache for the neighbours so arrowing through feels instant.
+  useEffect(() => {
+    for (const offset of [1, -1]) {
+      const neighbour = items[(index + offset + items.length) % items.length];
+      if (neighbour?.image && !brokenIds.has(neighbour.id)) {
+        preloadImage(
+          neighbour.image,
+          IMAGE_SIZES.lightbox,
+          LIGHTBOX_IMAGE_WIDTH
+        );
+      }
+    }
+  }, [items, index, brokenIds]);
+
+  return (
+    <motion.div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-label={t("lightbox.label", {
+        name: item.name,
+        number: index + 1,
+        total: items.length,
+      })}
+      tabIndex={-1}
+      className="fixed inset-0 bg-black/95 flex flex-col z-50 outline-none"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onPointerDownCapture={holdSlideshow}
+      onWheelCapture={holdSlideshow}
+    >
+      {playing && items.length > 1 && (
+        <motion.div
+          // Restarts with every slide and every hold.
+          key={`${index}:${holds}:${slideDelay}`}
+          className="absolute top-0 inset-x-0 h-0.5 bg-primary origin-left"
+          initial={{ scaleX: 0 }}
+          animate={{ scaleX: 1 }}
+          transition={{ duration: slideDelay / 1000, ease: "linear" }}
+        />
+      )}
+      <div className="flex items-center justify-between gap-4 px-4 h-16 text-white">
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{item.name}</p>
+          <p className="text-xs text-gray-300">
+            {t("lightbox.position", {
+              number: index + 1,
+              total: items.length,
+            })}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {items.length > 1 && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={togglePlaying}
+                aria-label={t(playing ? "lightbox.pause" : "lightbox.play")}
+                className="bg-black/50 text-white rounded-full hover:bg-black/70"
+              >
+                {playing ? (
+                  <Pause className="w-5 h-5" />
+                ) : (
+                  <Play className="w-5 h-5" />
+                )}
+              </Button>
+              <select
+                value={slideshowSettings.intervalMs}
+                onChange={(e) =>
+                  onSlideshowSettingsChange({
+                    intervalMs: Number(e.target.value),
+                  })
+                }
+                aria-label={t("lightbox.interval")}
+                className="h-9 rounded-full border border-white/20 bg-black/50 px-3 text-sm text-white outline-none focus-visible:ring-white/50 focus-visible:ring-[3px]"
+              >
+                {SLIDESHOW_INTERVALS.map((ms) => (
+                  <option key={ms} value={ms} className="text-foreground">
+                    {t("lightbox.seconds", { seconds: ms / 1000 })}
+                  </option>
+                ))}
+              </select>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  onSlideshowSettingsChange({
+                    loopCategory: !slideshowSettings.loopCategory,
+                  })
+                }
+                aria-pressed={slideshowSettings.loopCategory}
+                title={t("lightbox.loopHint")}
+                className={`rounded-full gap-2 hover:bg-black/70 ${
+                  slideshowSettings.loopCategory
+                    ? "bg-white text-black hover:text-white"
+                    : "bg-black/50 text-white"
+                }`}
+              >
+                <Repeat className="w-4 h-4" />
+                <span className="hidden sm:inline">{t("lightbox.loop")}</span>
+              </Button>
+            </>
+          )}
+          {fullscreenSupported && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={toggleFullscreen}
+              aria-label={t(
+                isFullscreen ? "lightbox.exitFullScreen" : "lightbox.fullScreen"
+              )}
+              className="bg-black/50 text-white rounded-full hover:bg-black/70"
+            >
+              {isFullscreen ? (
+                <Minimize className="w-5 h-5" />
+              ) : (
+                <Maximize className="w-5 h-5" />
+              )}
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            aria-label={t("action.close")}
+            className="bg-black/50 text-white rounded-full hover:bg-black/70"
+          >
+            <X className="w-5 h-5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="relative flex-1 min-h-0 flex items-center">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onPrev}
+          aria-label={t("lightbox.previous")}
+          className="absolute left-4 bg-black/50 text-white rounded-full hover:bg-black/70 z-10"
+        >
+          <ChevronLeft className="w-6 h-6" />
+        </Button>
+        {/* Keyed so zoom and pan start fresh for every piece. */}
+        <ZoomableImage
+          key={item.id}
+          item={item}
+          missing={imageMissing}
+          onSwipe={(direction) => (direction === "left" ? onNext() : onPrev())}
+          onBackdropClick={onClose}
+        />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onNext}
+          aria-label={t("lightbox.next")}
+          className="absolute right-4 bg-black/50 text-white rounded-full hover:bg-black/70 z-10"
+        >
+          <ChevronRight className="w-6 h-6" />
+        </Button>
+      </div>
+
+      {items.length > 1 && (
+        <Filmstrip
+          items={items}
+          index={index}
+          brokenIds={brokenIds}
+          onSelect={onSelect}
+        />
+      )}
+    </motion.div>
+  );
+}
+
+// ---- Zoom & pan ----
+interface Transform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const IDENTITY: Transform = { scale: 1, x: 0, y: 0 };
+
+interface ZoomableImageProps {
+  item: CatalogItem;
+  missing: boolean;
+  onSwipe: (direction: "left" | "right") => void;
+  onBackdropClick: () => void;
+}
+
+/**
+ * Pinch, wheel, double-tap and button zoom up to MAX_SCALE, with drag to
+ * pan while zoomed. At 1× a horizontal drag is a swipe to the neighbour.
+ */
+function ZoomableImage({
+  item,
+  missing,
+  onSwipe,
+  onBackdropClick,
+}: ZoomableImageProps) {
+  const { t } = useI18n();
+  const stageRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [transform, setTransform] = useState<Transform>(IDENTITY);
+  const [swipeOffset, setSwipeOffset] = useState(0);
+  const [dragging, setDragging] = useState(false);
+  const transformRef = useRef(transform);
+  const missingRef = useRef(missing);
+  const pointers = useRef(new Map<number, { x: number; y: number }>());
+  const gesture = useRef<{
+    startX: number;
+    startY: number;
+    origin: Transform;
+    pinchDistance?: number;
+    moved: boolean;
+    /** Started on the dark area around the image rather than the image. */
+    onBackdrop?: boolean;
+  } | null>(null);
+  const lastTap = useRef<{ time: number; x: number; y: number } | null>(null);
+
+  useEffect(() => {
+    transformRef.current = transform;
+  }, [transform]);
+
+  useEffect(() => {
+    missingRef.current = missing;
+  }, [missing]);
+
+  /** Keeps the zoomed content covering its frame instead of drifting off. */
+  function clamp(next: Transform): Transform {
+    const content = contentRef.current;
+    const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, next.scale));
+    if (!content || scale === 1) return IDENTITY;
+    const maxX = ((scale - 1) * content.offsetWidth) / 2;
+    const maxY = ((scale - 1) * content.offsetHeight) / 2;
+    return {
+      scale,
+      x: Math.min(maxX, Math.max(-maxX, next.x)),
+      y: Math.min(maxY, Math.max(-maxY, next.y)),
+    };
+  }
+
+  /** Zooms to `scale` keeping the point under (clientX, clientY) still. */
+  function zoomAt(
+    scale: number,
+    clientX?: number,
+    clientY?: number,
+    from: Transform = transformRef.current
+  ) {
+    // Nothing worth inspecting on the placeholder.
+    if (missingRef.current) return;
+    const rect = stageRef.current?.getBoundingClientRect();
+    const px =
+      rect && clientX !== undefined ? clientX - rect.left - rect.width / 2 : 0;
+    const py =
+      rect && clientY !== undefined ? clientY - rect.top - rect.height / 2 : 0;
+    const target = Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+    const ratio = target / from.scale;
+    const next = clamp({
+      scale: target,
+      x: px - (px - from.x) * ratio,
+      y: py - (py - from.y) * ratio,
+    });
+    transformRef.current = next;
+    setTransform(next);
+  }
+
+  // The wheel listener is bound once, so it reaches zoomAt through a ref.
+  const zoomAtRef = useRef(zoomAt);
+
+  useEffect(() => {
+    zoomAtRef.current = zoomAt;
+  });
+
+  // React registers wheel listeners as passive, which can't preventDefault.
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage) return;
+    function onWheel(e: WheelEvent) {
+      e.preventDefault();
+      const factor = Math.exp(-e.deltaY * 0.002);
+      zoomAtRef.current(
+        transformRef.current.scale * factor,
+        e.clientX,
+        e.clientY
+      );
+    }
+    stage.addEventListener("wheel", onWheel, { passive: false });
+    return () => stage.removeEventListener("wheel", onWheel);
+  }, []);
+
+  function onPointerDown(e: PointerEvent<HTMLDivElement>) {
+    // Capturing would retarget the zoom buttons' clicks to the stage.
+    if ((e.target as HTMLElement).closest("button")) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const points = Array.from(pointers.current.values());
+    gesture.current = {
+      startX: e.clientX,
+      startY: e.clientY,
+      origin: transformRef.current,
+      pinchDistance:
+        points.length === 2
+          ? Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y)
+          : undefined,
+      moved: points.length > 1,
+      onBackdrop: e.target === e.currentTarget,
+    };
+    setDragging(true);
+  }
+
+  function onPointerMove(e: PointerEvent<HTMLDivElement>) {
+    const current = gesture.current;
+    if (!current || !pointers.current.has(e.pointerId)) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const points = Array.from(pointers.current.values());
+
+    if (points.length === 2 && current.pinchDistance) {
+      const distance = Math.hypot(
+        points[0].x - points[1].x,
+        points[0].y - points[1].y
+      );
+      zoomAt(
+        (current.origin.scale * distance) / current.pinchDistance,
+        (points[0].x + points[1].x) / 2,
+        (points[0].y + points[1].y) / 2,
+        current.origin
+      );
+      return;
+    }
+
+    const dx = e.clientX - current.startX;
+    const dy = e.clientY - current.startY;
+    if (Math.hypot(dx, dy) > 8) current.moved = true;
+    if (current.origin.scale > 1) {
+      const next = clamp({
+        ...current.origin,
+        x: current.origin.x + dx,
+        y: current.origin.y + dy,
+      });
+      transformRef.current = next;
+      setTransform(next);
+    } else if (Math.abs(dx) > Math.abs(dy)) {
+      setSwipeOffset(dx);
+    }
+  }
+
+  function onPointerUp(e: PointerEvent<HTMLDivElement>) {
+    const current = gesture.current;
+    pointers.current.delete(e.pointerId);
+    if (!current) return;
+    if (pointers.current.size > 0) {
+      // One finger lifted mid-pinch: carry on panning with the other.
+      const [rest] = pointers.current.values();
+      gesture.current = {
+        startX: rest.x,
+        startY: rest.y,
+        origin: transformRef.current,
+        moved: true,
+      };
+      return;
+    }
+    gesture.current = null;
+    setDragging(false);
+    setSwipeOffset(0);
+
+    const dx = e.clientX - current.startX;
+    const dy = e.clientY - current.startY;
+    if (
+      current.origin.scale === 1 &&
+      current.pinchDistance === undefined &&
+      Math.abs(dx) > SWIPE_DISTANCE &&
+      Math.abs(dx) > Math.abs(dy)
+    ) {
+      onSwipe(dx < 0 ? "left" : "right");
+      return;
+    }
+    if (current.moved) return;
+    // A plain tap on the dark area around the image closes, like before.
+    if (current.onBackdrop && current.origin.scale === 1) {
+      onBackdropClick();
+      return;
+    }
+
+    // Double tap / double click toggles between fit and a close-up.
+    const now = e.timeStamp;
+    const previous = lastTap.current;
+    if (
+      previous &&
+      now - previous.time < DOUBLE_TAP_MS &&
+      Math.hypot(e.clientX - previous.x, e.clientY - previous.y) < 30
+    ) {
+      lastTap.current = null;
+      if (transformRef.current.scale > 1) zoomAt(1);
+      else zoomAt(DOUBLE_TAP_SCALE, e.clientX, e.clientY);
+    } else {
+      lastTap.current = { time: now, x: e.clientX, y: e.clientY };
+    }
+  }
+
+  function onPointerCancel(e: PointerEvent<HTMLDivElement>) {
+    pointers.current.delete(e.pointerId);
+    gesture.current = null;
+    setDragging(false);
+    setSwipeOffset(0);
+  }
+
+  const zoomed = transform.scale > 1;
+
+  return (
+    <div
+      ref={stageRef}
+      className={`relative w-full h-full flex items-center justify-center overflow-hidden select-none touch-none ${
+        zoomed ? "cursor-grab active:cursor-grabbing" : "cursor-zoom-in"
+      }`}
+      onPointerDown={onPointerDown}
+      onPointerMove={onPointerMove}
+      onPointerUp={onPointerUp}
+      onPointerCancel={onPointerCancel}
+    >
+      <div
+        ref={contentRef}
+        className="relative"
+        style={{
+          transform: `translate(${transform.x + swipeOffset}px, ${transform.y}px) scale(${transform.scale})`,
+          transition:
+            dragging || swipeOffset ? "none" : "transform 0.2s ease-out",
+        }}
+      >
+        <ResponsiveImage
+          src={item.image}
+          alt={item.name}
+          reportId={item.id}
+          sizes={IMAGE_SIZES.lightbox}
+          fallbackWidth={LIGHTBOX_IMAGE_WIDTH}
+          loading="eager"
+          draggable={false}
+          placeholderColor={item.dominantColor}
+          wrapperClassName="inline-block rounded-lg shadow-2xl bg-transparent"
+          className={
+            missing
+              ? "h-[60vh] w-auto max-w-[90vw] object-contain"
+              : "max-h-[calc(100vh-12rem)] max-w-[90vw]"
+          }
+        />
+        {missing && (
+          <Badge variant="secondary" className="absolute top-4 left-4 gap-2">
+            <ImageOff className="w-3 h-3" />
+            {t("lightbox.unavailable")}
+          </Badge>
+        )}
+      </div>
+
+      {!missing && (
+        <div className="absolute bottom-4 right-4 flex gap-2 z-10">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => zoomAt(transform.scale / 1.5)}
+            disabled={!zoomed}
+            aria-label={t("lightbox.zoomOut")}
+            className="bg-black/50 text-white rounded-full hover:bg-black/70"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => zoomAt(transform.scale * 1.5)}
+            disabled={transform.scale >= MAX_SCALE}
+            aria-label={t("lightbox.zoomIn")}
+            className="bg-black/50 text-white rounded-full hover:bg-black/70"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ---- Filmstrip ----
+// Thumbnails either side of the current piece. Long subfolders and
+// category-wide slideshows would otherwise mount hundreds of images at once.
+const FILMSTRIP_RADIUS = 15;
+
+interface FilmstripProps {
+  items: CatalogItem[];
+  index: number;
+  brokenIds: Set<string>;
+  onSelect: (index: number) => void;
+}
+
+function Filmstrip({ items, index, brokenIds, onSelect }: FilmstripProps) {
+  const { t } = useI18n();
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({
+      behavior: "smooth",
+      block: "nearest",
+      inline: "center",
+    });
+  }, [index]);
+
+  const start = Math.max(
+    0,
+    Math.min(index - FILMSTRIP_RADIUS, items.length - 2 * FILMSTRIP_RADIUS - 1)
+  );
+  const visible = items.slice(start, start + 2 * FILMSTRIP_RADIUS + 1);
+
+  return (
+    <div className="flex gap-2 overflow-x-auto px-4 py-3 scrollbar-hide">
+      {visible.map((thumb, offset) => {
+        const thumbIndex = start + offset;
+        const active = thumbIndex === index;
+        const broken = !thumb.image || brokenIds.has(thumb.id);
+        return (
+          <button
+            key={thumb.id}
+            ref={active ? activeRef : undefined}
+            type="button"
+            onClick={() => onSelect(thumbIndex)}
+            aria-label={
+              broken
+                ? t("lightbox.thumbUnavailable", { name: thumb.name })
+                : thumb.name
+            }
+            aria-current={active ? "true" : undefined}
+            className={`relative w-14 h-20 flex-shrink-0 overflow-hidden rounded-md border-2 transition-opacity outline-none focus-visible:ring-[3px] focus-visible:ring-white/70 focus-visible:opacity-100 ${
+              active
+                ? "border-primary"
+                : "border-transparent opacity-60 hover:opacity-100"
+            }`}
+          >
+            <ResponsiveImage
+              src={thumb.image}
+              alt=""
+              reportId={thumb.id}
+              sizes={IMAGE_SIZES.thumbnail}
+              fallbackWidth={240}
+              maxWidth={240}
+              wrapperClassName="w-full h-full"
+              className="w-full h-full object-cover"
+            />
+            {broken && (
+              <span className="absolute inset-0 flex items-center justify-center bg-black/50">
+                <ImageOff className="w-4 h-4 text-white" />
+              </span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import type { ComponentProps, MouseEvent } from "react";
+import { navigate } from "@/lib/router";
+
+type LinkProps = Omit<ComponentProps<"a">, "href"> & {
+  to: string;
+  replace?: boolean;
+};
+
+/** An anchor that navigates through the client router on plain left-clicks. */
+export function Link({ to, replace, onClick, ...props }: LinkProps) {
+  function handleClick(e: MouseEvent<HTMLAnchorElement>) {
+    onClick?.(e);
+    if (
+      e.defaultPrevented ||
+      e.button !== 0 ||
+      e.metaKey ||
+      e.ctrlKey ||
+      e.shiftKey ||
+      e.altKey ||
+      props.target === "_blank"
+    ) {
+      return;
+    }
+    e.preventDefault();
+    navigate(to, { replace });
+  }
+
+  return <a href={to} onClick={handleClick} {...props} />;
+}
@@ -0,0 +1,23 @@
+import { useSyncExternalStore } from "react";
+import { getAnnouncement, subscribeAnnouncements } from "@/lib/announcer";
+
+/** The page's polite live region; render once. */
+export function LiveAnnouncer() {
+  const { message, id } = useSyncExternalStore(
+    subscribeAnnouncements,
+    getAnnouncement
+  );
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      aria-atomic="true"
+      className="sr-only"
+    >
+      {/* Screen readers ignore an unchanged text node, so alternate a
+          trailing no-break space to have a repeated message read again. */}
+      {message && `${message}${id % 2 ? "\u00a0" : ""}`}
+    </div>
+  );
+}
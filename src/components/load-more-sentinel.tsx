@@ -0,0 +1,70 @@
+import { useEffect, useRef } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useI18n } from "@/hooks/use-i18n";
+import { describeApiError } from "@/lib/api-errors";
+
+interface LoadMoreSentinelProps {
+  loading: boolean;
+  error: unknown;
+  onVisible: () => void;
+  onRetry: () => void;
+}
+
+/**
+ * Placed after a paged list: asks for the next page as it comes within a
+ * screen of the viewport, and shows progress or a retry while it loads.
+ */
+export function LoadMoreSentinel({
+  loading,
+  error,
+  onVisible,
+  onRetry,
+}: LoadMoreSentinelProps) {
+  const { t } = useI18n();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const onVisibleRef = useRef(onVisible);
+
+  useEffect(() => {
+    onVisibleRef.current = onVisible;
+  }, [onVisible]);
+
+  // Re-observed whenever a load settles: an observer only reports changes,
+  // so a sentinel that is still on screen after a short page needs a fresh
+  // observer to trigger the next one.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || loading || error) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onVisibleRef.current();
+        }
+      },
+      { rootMargin: "100% 0px" }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [loading, error]);
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center pt-8">
+      {loading && (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          {t("loading.more")}
+        </p>
+      )}
+      {!loading && error !== null && (
+        <div className="flex items-center gap-4 text-sm">
+          <span className="text-muted-foreground">
+            {describeApiError(error, t).message}
+          </span>
+          <Button variant="outline" size="sm" onClick={onRetry}>
+            {t("action.tryAgain")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useRef, type ReactNode } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Crown, Heart, ShoppingBag, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { LanguageSwitcher } from "@/components/language-switcher";
+import { Link } from "@/components/link";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { useEscapeKey } from "@/hooks/use-escape-key";
+import { useFocusTrap } from "@/hooks/use-focus-trap";
+import { useI18n } from "@/hooks/use-i18n";
+import { useScrollLock } from "@/hooks/use-scroll-lock";
+import { paths } from "@/lib/router";
+
+export interface MobileNavCategory {
+  id: string;
+  name: string;
+  count: number;
+}
+
+interface MobileNavProps {
+  open: boolean;
+  categories: MobileNavCategory[];
+  wishlistCount: number;
+  cartCount: number;
+  /** The search box, rendered at the top of the drawer. */
+  search: ReactNode;
+  onClose: () => void;
+  onSelectCategory: (categoryId: string) => void;
+  onOpenWishlist: () => void;
+  onOpenCart: () => void;
+}
+
+/** Slide-in navigation for screens too narrow for the header nav. */
+export function MobileNav({
+  open,
+  categories,
+  wishlistCount,
+  cartCount,
+  search,
+  onClose,
+  onSelectCategory,
+  onOpenWishlist,
+  onOpenCart,
+}: MobileNavProps) {
+  const { t, formatNumber } = useI18n();
+  const drawerRef = useRef<HTMLDivElement>(null);
+
+  // Tied to `open` rather than the drawer's lifetime so the page unlocks
+  // straight away, not after the exit animation.
+  useFocusTrap(drawerRef, open);
+  useScrollLock(open);
+
+  // The search box uses Escape to close its suggestions first; the hook
+  // skips presses it already handled.
+  useEscapeKey(onClose, open);
+
+  // Closing before acting lets the page scroll and focus settle normally.
+  function closeThen(action: () => void) {
+    return () => {
+      onClose();
+      action();
+    };
+  }
+
+  return (
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm md:hidden"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <motion.div
+            ref={drawerRef}
+            id="mobile-nav"
+            role="dialog"
+            aria-modal="true"
+            aria-label={t("nav.menu")}
+            className="absolute left-0 top-0 h-full w-full max-w-xs bg-background shadow-2xl flex flex-col"
+            initial={{ x: "-100%" }}
+            animate={{ x: 0 }}
+            exit={{ x: "-100%" }}
+            transition={{ type: "tween", duration: 0.3 }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div className="flex items-center justify-between px-4 h-16 border-b border-border">
+              <div className="flex items-center gap-2">
+                <Crown className="w-6 h-6 text-primary" />
+                <span className="font-bold text-primary">
+                  {t("brand.name")}
+                </span>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onClose}
+                aria-label={t("nav.closeMenu")}
+              >
+                <X className="w-5 h-5" />
+              </Button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto">
+              <div className="p-4 border-b border-border">{search}</div>
+
+              <nav className="p-4 space-y-1 border-b border-border">
+                <Link
+                  to={paths.home()}
+                  onClick={onClose}
+                  className="block rounded-md px-3 py-2 font-medium hover:bg-muted hover:text-primary transition-colors"
+                >
+                  {t("nav.collection")}
+                </Link>
+                <a
+                  href="#about"
+                  onClick={onClose}
+                  className="block rounded-md px-3 py-2 font-medium hover:bg-muted hover:text-primary transition-colors"
+                >
+                  {t("nav.about")}
+                </a>
+                <a
+                  href="#contact"
+                  onClick={onClose}
+                  className="block rounded-md px-3 py-2 font-medium hover:bg-muted hover:text-primary transition-colors"
+                >
+                  {t("nav.contact")}
+                </a>
+              </nav>
+
+              <div className="p-4 grid grid-cols-2 gap-3 border-b border-border">
+                <Button
+                  variant="outline"
+                  onClick={closeThen(onOpenWishlist)}
+                  className="gap-2"
+                >
+                  <Heart className="w-4 h-4" />
+                  {t("nav.wishlist", { count: wishlistCount })}
+                </Button>
+                <Button onClick={closeThen(onOpenCart)} className="gap-2">
+                  <ShoppingBag className="w-4 h-4" />
+                  {t("nav.cart", { count: cartCount })}
+                </Button>
+              </div>
+
+              {categories.length > 0 && (
+                <div className="p-4">
+                  <h2 className="px-3 mb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                    {t("nav.categories")}
+                  </h2>
+                  <ul className="space-y-1">
+                    {categories.map((category) => (
+                      <li key={category.id}>
+                        <button
+                          type="button"
+                          onClick={closeThen(() =>
+                            onSelectCategory(category.id)
+                          )}
+                          className="w-full flex items-center justify-between rounded-md px-3 py-2 text-left hover:bg-muted hover:text-primary transition-colors"
+                        >
+                          {category.name}
+                          <Badge
+                            variant="secondary"
+                            className="text-xs bg-primary/10"
+                          >
+                            {formatNumber(category.count)}
+                          </Badge>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between px-4 h-14 border-t border-border">
+              <span className="text-sm text-muted-foreground">
+                {t("nav.language")}
+              </span>
+              <LanguageSwitcher />
+            </div>
+            <div className="flex items-center justify-between px-4 h-14 border-t border-border">
+              <span className="text-sm text-muted-foreground">
+                {t("nav.theme")}
+              </span>
+              <ThemeToggle />
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
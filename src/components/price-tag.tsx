@@ -0,0 +1,34 @@
+import { useI18n } from "@/hooks/use-i18n";
+import { cn } from "@/lib/utils";
+import { discountPercent } from "@/lib/price";
+
+interface PriceTagProps {
+  price?: number;
+  mrp?: number;
+  className?: string;
+}
+
+/** Selling price with the MRP struck through when there is a discount. */
+export function PriceTag({ price, mrp, className }: PriceTagProps) {
+  const { t, formatPrice } = useI18n();
+  if (price === undefined) return null;
+  const discount = discountPercent(price, mrp);
+
+  return (
+    <span
+      className={cn("inline-flex items-baseline gap-2 flex-wrap", className)}
+    >
+      <span className="font-bold text-primary">{formatPrice(price)}</span>
+      {discount !== null && mrp !== undefined && (
+        <>
+          <s className="text-sm font-normal text-muted-foreground">
+            {formatPrice(mrp)}
+          </s>
+          <span className="text-xs font-semibold text-destructive">
+            {t("price.off", { percent: discount })}
+          </span>
+        </>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,252 @@
+import { useRef, useState } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { X, Heart, ShoppingBag, Maximize2, Share2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { PriceTag } from "@/components/price-tag";
+import { ResponsiveImage } from "@/components/responsive-image";
+import { useEscapeKey } from "@/hooks/use-escape-key";
+import { useFocusTrap } from "@/hooks/use-focus-trap";
+import { useI18n } from "@/hooks/use-i18n";
+import { useScrollLock } from "@/hooks/use-scroll-lock";
+import {
+  itemAttributes,
+  itemImages,
+  stockLabel,
+  type CatalogEntry,
+} from "@/lib/catalog";
+import { IMAGE_SIZES } from "@/lib/images";
+
+interface ProductDetailProps {
+  entry: CatalogEntry | null;
+  isFavorite: boolean;
+  onClose: () => void;
+  onToggleFavorite: () => void;
+  onAddToCart: () => void;
+  onViewFullscreen: () => void;
+  onShare: () => void;
+}
+
+export function ProductDetail({
+  entry,
+  isFavorite,
+  onClose,
+  onToggleFavorite,
+  onAddToCart,
+  onViewFullscreen,
+  onShare,
+}: ProductDetailProps) {
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useFocusTrap(panelRef, entry !== null);
+  useScrollLock(entry !== null);
+
+  useEscapeKey(onClose, entry !== null);
+
+  return (
+    <AnimatePresence>
+      {entry && (
+        <motion.div
+          className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <motion.div
+            ref={panelRef}
+            role="dialog"
+            aria-modal="true"
+            aria-label={entry.item.name}
+            className="absolute right-0 top-0 h-full w-full max-w-2xl bg-background shadow-2xl flex flex-col"
+            initial={{ x: "100%" }}
+            animate={{ x: 0 }}
+            exit={{ x: "100%" }}
+            transition={{ type: "tween", duration: 0.3 }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Keyed so every product starts on its primary image. */}
+            <ProductDetailBody
+              key={entry.item.id}
+              entry={entry}
+              isFavorite={isFavorite}
+              onClose={onClose}
+              onToggleFavorite={onToggleFavorite}
+              onAddToCart={onAddToCart}
+              onViewFullscreen={onViewFullscreen}
+              onShare={onShare}
+            />
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+interface ProductDetailBodyProps extends Omit<ProductDetailProps, "entry"> {
+  entry: CatalogEntry;
+}
+
+function ProductDetailBody({
+  entry,
+  isFavorite,
+  onClose,
+  onToggleFavorite,
+  onAddToCart,
+  onViewFullscreen,
+  onShare,
+}: ProductDetailBodyProps) {
+  const { t } = useI18n();
+  const [imageIndex, setImageIndex] = useState(0);
+  const { item, category, subfolder } = entry;
+  const images = itemImages(item);
+  const attributes = itemAttributes(item, t);
+  const stock = stockLabel(item.stock, t);
+  const soldOut = item.stock !== undefined && item.stock <= 0;
+  const currentImage = images[imageIndex] ?? images[0];
+
+  return (
+    <>
+      <div className="flex items-center justify-between px-6 h-16 border-b border-border">
+        <p className="text-sm text-muted-foreground truncate">
+          {category.name} · {subfolder.name}
+        </p>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onShare}
+            aria-label={t("item.share", { name: item.name })}
+          >
+            <Share2 className="w-5 h-5" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            aria-label={t("action.close")}
+          >
+            <X className="w-5 h-5" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="p-6 space-y-4">
+          <div className="relative aspect-[3/4] max-h-[60vh] mx-auto overflow-hidden rounded-lg bg-muted">
+            <ResponsiveImage
+              key={currentImage}
+              src={currentImage ?? null}
+              alt={item.name}
+              reportId={currentImage === item.image ? item.id : undefined}
+              sizes={IMAGE_SIZES.detail}
+              fallbackWidth={960}
+              loading="eager"
+              placeholderColor={item.dominantColor}
+              wrapperClassName="w-full h-full"
+              className="w-full h-full object-contain"
+            />
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={onViewFullscreen}
+              aria-label={t("item.viewFullScreen")}
+              className="absolute top-4 right-4 backdrop-blur-sm bg-background/80"
+            >
+              <Maximize2 className="w-4 h-4" />
+            </Button>
+          </div>
+          {images.length > 1 && (
+            <div className="flex gap-3 overflow-x-auto pb-2">
+              {images.map((src, index) => (
+                <button
+                  key={src}
+                  type="button"
+                  onClick={() => setImageIndex(index)}
+                  className={`w-16 h-20 flex-shrink-0 overflow-hidden rounded-md border-2 transition-colors ${
+                    index === imageIndex
+                      ? "border-primary"
+                      : "border-transparent opacity-70 hover:opacity-100"
+                  }`}
+                >
+                  <ResponsiveImage
+                    src={src}
+                    alt={t("item.imageView", {
+                      name: item.name,
+                      number: index + 1,
+                    })}
+                    sizes={IMAGE_SIZES.thumbnail}
+                    fallbackWidth={240}
+                    maxWidth={240}
+                    wrapperClassName="w-full h-full"
+                    className="w-full h-full object-cover"
+                  />
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 pb-6 space-y-6">
+          <div className="space-y-2">
+            <div className="flex items-start justify-between gap-4">
+              <h2 className="text-2xl font-bold text-foreground text-balance">
+                {item.name}
+              </h2>
+              {stock && (
+                <Badge variant={soldOut ? "destructive" : "secondary"}>
+                  {stock}
+                </Badge>
+              )}
+            </div>
+            <PriceTag price={item.price} mrp={item.mrp} className="text-2xl" />
+          </div>
+
+          {attributes.length > 0 && (
+            <dl className="grid grid-cols-2 gap-x-6 gap-y-3 text-sm">
+              {attributes.map(({ label, value }) => (
+                <div key={label}>
+                  <dt className="text-muted-foreground">{label}</dt>
+                  <dd className="font-medium">{value}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+
+          {item.care && (
+            <div className="space-y-1">
+              <h3 className="text-sm font-semibold">{t("item.care")}</h3>
+              <p className="text-sm text-muted-foreground whitespace-pre-line">
+                {item.care}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="border-t border-border px-6 py-4 flex gap-3">
+        <Button
+          variant="outline"
+          onClick={onToggleFavorite}
+          aria-label={t(
+            isFavorite ? "item.removeFromWishlist" : "item.addToWishlist"
+          )}
+          aria-pressed={isFavorite}
+          className="hover:bg-red-50 hover:text-red-500 dark:hover:bg-red-950/40"
+        >
+          <Heart
+            className={`w-4 h-4 ${isFavorite ? "fill-current text-red-500" : ""}`}
+          />
+        </Button>
+        <Button
+          className="flex-1 gap-2"
+          onClick={onAddToCart}
+          disabled={soldOut}
+        >
+          <ShoppingBag className="w-4 h-4" />
+          {t(soldOut ? "item.soldOut" : "item.addToCart")}
+        </Button>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState, type ImgHTMLAttributes } from "react";
+import { cn } from "@/lib/utils";
+import { reportBrokenImage } from "@/lib/broken-images";
+import {
+  alternateImageUrl,
+  imagePlaceholder,
+  imageSrcSet,
+  imageVariant,
+  PLACEHOLDER_IMAGE,
+} from "@/lib/images";
+
+interface ResponsiveImageProps extends Omit<
+  ImgHTMLAttributes<HTMLImageElement>,
+  "src" | "srcSet"
+> {
+  /** Null shows the bundled placeholder straight away. */
+  src: string | null;
+  alt: string;
+  /** One of IMAGE_SIZES, or any other `sizes` value. */
+  sizes: string;
+  /** Width requested by browsers that ignore `srcset`. */
+  fallbackWidth?: number;
+  /** Largest width worth offering; saves bytes for small slots. */
+  maxWidth?: number;
+  /** Shown behind the blurred preview, e.g. the item's dominant colour. */
+  placeholderColor?: string;
+  /** Id the failure is reported under (see broken-images); defaults to src. */
+  reportId?: string;
+  wrapperClassName?: string;
+}
+
+/**
+ * "primary" is the sized variant, "alternate" the same Drive file through
+ * its other URL form, "failed" the bundled placeholder.
+ */
+type Stage = "primary" | "alternate" | "failed";
+
+interface ImageStatus {
+  src: string | null;
+  stage: Stage;
+  loaded: boolean;
+}
+
+function initialStatus(src: string | null): ImageStatus {
+  return { src, stage: src ? "primary" : "failed", loaded: false };
+}
+
+/**
+ * An <img> with sized variants, lazy loading and a blur-up placeholder: a
+ * tiny preview (or a flat colour) fills the frame until the real image has
+ * decoded, then the image fades in over it.
+ *
+ * A failed load is retried once through the alternate Drive URL; if that
+ * fails too the placeholder is shown and the failure reported.
+ */
+export function ResponsiveImage({
+  src,
+  alt,
+  sizes,
+  fallbackWidth = 720,
+  maxWidth,
+  placeholderColor,
+  reportId,
+  wrapperClassName,
+  className,
+  loading = "lazy",
+  onLoad,
+  onError,
+  ...imgProps
+}: ResponsiveImageProps) {
+  const [status, setStatus] = useState(() => initialStatus(src));
+  // A new src starts over, without an effect and its extra render.
+  if (status.src !== src) setStatus(initialStatus(src));
+  const { stage, loaded } = status.src === src ? status : initialStatus(src);
+
+  let imgSrc = PLACEHOLDER_IMAGE;
+  let srcSet: string | undefined;
+  if (src && stage === "primary") {
+    imgSrc = imageVariant(src, fallbackWidth);
+    srcSet = imageSrcSet(src, maxWidth);
+  } else if (src && stage === "alternate") {
+    imgSrc = alternateImageUrl(src, fallbackWidth) ?? PLACEHOLDER_IMAGE;
+  }
+  const preview = src && stage !== "failed" ? imagePlaceholder(src) : null;
+
+  function update(next: Partial<ImageStatus>) {
+    setStatus((prev) => (prev.src === src ? { ...prev, ...next } : prev));
+  }
+
+  return (
+    <span
+      className={cn(
+        "relative block overflow-hidden bg-muted",
+        wrapperClassName
+      )}
+      style={
+        placeholderColor ? { backgroundColor: placeholderColor } : undefined
+      }
+    >
+      {preview && !loaded && (
+        <img
+          src={preview}
+          alt=""
+          aria-hidden="true"
+          className="absolute inset-0 w-full h-full object-cover blur-xl scale-110"
+        />
+      )}
+      <img
+        {...imgProps}
+        ref={(img) => {
+          // Already decoded (e.g. from cache) before React attached onLoad.
+          if (img?.complete && img.naturalWidth > 0 && !loaded) {
+            update({ loaded: true });
+          }
+        }}
+        src={imgSrc}
+        srcSet={srcSet}
+        sizes={srcSet ? sizes : undefined}
+        alt={alt}
+        loading={loading}
+        decoding="async"
+        data-broken={src && stage === "failed" ? "" : undefined}
+        onLoad={(e) => {
+          update({ loaded: true });
+          onLoad?.(e);
+        }}
+        onError={(e) => {
+          if (src && stage === "primary" && alternateImageUrl(src, 0)) {
+            update({ stage: "alternate", loaded: false });
+          } else if (src && stage !== "failed") {
+            update({ stage: "failed", loaded: false });
+            reportBrokenImage(reportId ?? src, src);
+          }
+          onError?.(e);
+        }}
+        className={cn(
+          "relative transition-opacity duration-500",
+          loaded ? "opacity-100" : "opacity-0",
+          className
+        )}
+      />
+    </span>
+  );
+}
@@ -0,0 +1,259 @@
+import {
+  useDeferredValue,
+  useEffect,
+  useId,
+  useMemo,
+  useState,
+  type KeyboardEvent,
+} from "react";
+import { Clock, FolderOpen, Layers, Search, Tag } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Highlight } from "@/components/highlight";
+import { useI18n } from "@/hooks/use-i18n";
+import type { MessageKey } from "@/lib/i18n";
+import type { SearchSuggestion } from "@/lib/search";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+type SearchOption = { kind: "recent"; label: string } | SearchSuggestion;
+
+const OPTION_ICONS = {
+  recent: Clock,
+  category: Layers,
+  subfolder: FolderOpen,
+  item: Tag,
+};
+
+const GROUP_LABELS: Record<SearchOption["kind"], MessageKey> = {
+  recent: "search.group.recent",
+  category: "search.group.category",
+  subfolder: "search.group.subfolder",
+  item: "search.group.item",
+};
+
+interface SearchInputProps {
+  /** The committed query, i.e. what the catalog is currently filtered by. */
+  value: string;
+  onSearch: (query: string) => void;
+  getSuggestions: (text: string) => SearchSuggestion[];
+  onSelectSuggestion: (suggestion: SearchSuggestion) => void;
+  recentSearches: string[];
+  /** Called when a search is deliberately run (Enter or a pick). */
+  onRecordSearch: (query: string) => void;
+  onClearRecent: () => void;
+}
+
+/**
+ * Search box with an autocomplete dropdown, following the ARIA 1.2 combobox
+ * pattern: focus stays in the input and the highlighted option is exposed
+ * through aria-activedescendant.
+ *
+ * Keystrokes live in local state and are only committed once typing
+ * pauses, so the catalog isn't re-searched and re-rendered on every
+ * character.
+ */
+export function SearchInput({
+  value,
+  onSearch,
+  getSuggestions,
+  onSelectSuggestion,
+  recentSearches,
+  onRecordSearch,
+  onClearRecent,
+}: SearchInputProps) {
+  const { t } = useI18n();
+  const [text, setText] = useState(value);
+  const [committed, setCommitted] = useState(value);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const listboxId = useId();
+
+  // Follow outside changes (back/forward, "Clear All") without an effect.
+  if (value !== committed) {
+    setCommitted(value);
+    setText(value);
+  }
+
+  useEffect(() => {
+    if (text === value) return;
+    const timer = window.setTimeout(() => onSearch(text), SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timer);
+  }, [text, value, onSearch]);
+
+  // Suggestions may lag a keystroke behind on big catalogs; typing doesn't.
+  const deferredText = useDeferredValue(text);
+  const options = useMemo<SearchOption[]>(
+    () =>
+      deferredText.trim()
+        ? getSuggestions(deferredText)
+        : recentSearches.map((label) => ({ kind: "recent", label })),
+    [deferredText, getSuggestions, recentSearches]
+  );
+  const expanded = open && options.length > 0;
+  const active = activeIndex < options.length ? activeIndex : -1;
+  const optionId = (index: number) => `${listboxId}-option-${index}`;
+
+  function close() {
+    setOpen(false);
+    setActiveIndex(-1);
+  }
+
+  function runSearch(query: string) {
+    setText(query);
+    if (query !== value) onSearch(query);
+    onRecordSearch(query);
+    close();
+  }
+
+  function choose(option: SearchOption) {
+    if (option.kind === "recent") {
+      runSearch(option.label);
+      return;
+    }
+    onRecordSearch(text);
+    // Collections and sub-collections are pages of their own; the typed
+    // text would only narrow them further, so it's dropped.
+    if (option.kind !== "item") setText("");
+    onSelectSuggestion(option);
+    close();
+  }
+
+  function onKeyDown(e: KeyboardEvent<HTMLInputElement>) {
+    switch (e.key) {
+      case "ArrowDown":
+      case "ArrowUp": {
+        e.preventDefault();
+        if (!expanded) {
+          setOpen(true);
+          return;
+        }
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        // -1 (nothing highlighted) sits between the last and first option.
+        const next = active + step;
+        setActiveIndex(
+          next >= options.length ? -1 : next < -1 ? options.length - 1 : next
+        );
+        break;
+      }
+      case "Enter":
+        e.preventDefault();
+        if (expanded && active >= 0) choose(options[active]);
+        else runSearch(text);
+        break;
+      case "Escape":
+        if (expanded) {
+          e.preventDefault();
+          close();
+        } else if (text) {
+          e.preventDefault();
+          setText("");
+        }
+        break;
+      case "Tab":
+        close();
+        break;
+    }
+  }
+
+  return (
+    <div className="flex-1 relative w-full">
+      <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-muted-foreground w-5 h-5 pointer-events-none" />
+      <Input
+        type="search"
+        role="combobox"
+        aria-label={t("search.label")}
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={listboxId}
+        aria-activedescendant={active >= 0 ? optionId(active) : undefined}
+        autoComplete="off"
+        placeholder={t("search.placeholder")}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setActiveIndex(-1);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={close}
+        onKeyDown={onKeyDown}
+        className="pl-12 h-14 text-lg border-2 border-border/50 focus:border-primary/50 bg-background/80 backdrop-blur-sm"
+      />
+
+      <div
+        className={`absolute left-0 right-0 top-full mt-2 z-50 rounded-lg border border-border bg-popover text-popover-foreground shadow-xl overflow-hidden ${
+          expanded ? "" : "hidden"
+        }`}
+      >
+        {options[0]?.kind === "recent" && (
+          <div className="flex items-center justify-between px-4 pt-3 pb-1">
+            <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+              {t(GROUP_LABELS.recent)}
+            </span>
+            <button
+              type="button"
+              // Keep focus in the input so the dropdown doesn't blur closed.
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={onClearRecent}
+              className="text-xs text-muted-foreground hover:text-primary transition-colors"
+            >
+              {t("search.clear")}
+            </button>
+          </div>
+        )}
+        <ul
+          id={listboxId}
+          role="listbox"
+          aria-label={t("search.suggestions")}
+          className="max-h-96 overflow-y-auto py-1"
+        >
+          {options.map((option, index) => {
+            const Icon = OPTION_ICONS[option.kind];
+            const startsGroup =
+              option.kind !== "recent" &&
+              option.kind !== options[index - 1]?.kind;
+            return (
+              <li key={`${option.kind}:${index}`} role="presentation">
+                {startsGroup && (
+                  <div
+                    aria-hidden="true"
+                    className="px-4 pt-3 pb-1 text-xs font-medium uppercase tracking-wide text-muted-foreground"
+                  >
+                    {t(GROUP_LABELS[option.kind])}
+                  </div>
+                )}
+                <div
+                  id={optionId(index)}
+                  role="option"
+                  aria-selected={index === active}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onMouseMove={() => setActiveIndex(index)}
+                  onClick={() => choose(option)}
+                  className={`flex items-center gap-3 px-4 py-2 cursor-pointer ${
+                    index === active ? "bg-accent text-accent-foreground" : ""
+                  }`}
+                >
+                  <Icon className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <p className="truncate text-sm">
+                      {option.kind === "recent" ? (
+                        option.label
+                      ) : (
+                        <Highlight text={option.label} query={deferredText} />
+                      )}
+                    </p>
+                    {"detail" in option && (
+                      <p className="truncate text-xs text-muted-foreground">
+                        {option.detail}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useEffect, useRef } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { Check, Link2, Mail, MessageCircle, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ResponsiveImage } from "@/components/responsive-image";
+import { useEscapeKey } from "@/hooks/use-escape-key";
+import { useFocusTrap } from "@/hooks/use-focus-trap";
+import { useI18n } from "@/hooks/use-i18n";
+import { useScrollLock } from "@/hooks/use-scroll-lock";
+import type { CatalogItem } from "@/lib/catalog";
+import { IMAGE_SIZES } from "@/lib/images";
+import {
+  copyText,
+  emailShareUrl,
+  itemShareContent,
+  whatsAppShareUrl,
+} from "@/lib/share";
+
+interface ShareDialogProps {
+  /** Piece being shared; null closes the dialog. */
+  item: CatalogItem | null;
+  onClose: () => void;
+  /** Called with a short confirmation once the link is on the clipboard. */
+  onNotice: (message: string) => void;
+}
+
+/** Share options for browsers without a system share sheet. */
+export function ShareDialog({ item, onClose, onNotice }: ShareDialogProps) {
+  return (
+    <AnimatePresence>
+      {item && (
+        <motion.div
+          className="fixed inset-0 z-[70] bg-black/50 backdrop-blur-sm flex items-end sm:items-center justify-center p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onClose}
+        >
+          <ShareDialogBody item={item} onClose={onClose} onNotice={onNotice} />
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
+
+interface ShareDialogBodyProps extends Omit<ShareDialogProps, "item"> {
+  item: CatalogItem;
+}
+
+function ShareDialogBody({ item, onClose, onNotice }: ShareDialogBodyProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const urlRef = useRef<HTMLInputElement>(null);
+  const i18n = useI18n();
+  const { t } = i18n;
+  const content = itemShareContent(item, i18n);
+
+  useFocusTrap(dialogRef, true);
+  useScrollLock(true);
+
+  useEscapeKey(onClose, true);
+
+  async function copyLink() {
+    if (await copyText(content.url)) {
+      onNotice(t("share.copied"));
+      onClose();
+    } else {
+      // No clipboard access at all: leave the link selected to copy by hand.
+      urlRef.current?.select();
+    }
+  }
+
+  return (
+    <motion.div
+      ref={dialogRef}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="share-dialog-title"
+      className="w-full max-w-sm rounded-lg bg-background shadow-2xl"
+      initial={{ y: 40, opacity: 0 }}
+      animate={{ y: 0, opacity: 1 }}
+      exit={{ y: 40, opacity: 0 }}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-6 h-14 border-b border-border">
+        <h2 id="share-dialog-title" className="font-semibold">
+          {t("share.title")}
+        </h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          aria-label={t("action.close")}
+        >
+          <X className="w-5 h-5" />
+        </Button>
+      </div>
+      <div className="p-6 space-y-6">
+        <div className="flex items-center gap-4">
+          <ResponsiveImage
+            src={item.image}
+            alt=""
+            reportId={item.id}
+            sizes={IMAGE_SIZES.thumbnail}
+            fallbackWidth={240}
+            maxWidth={240}
+            placeholderColor={item.dominantColor}
+            wrapperClassName="w-16 h-20 flex-shrink-0 rounded-md"
+            className="w-full h-full object-cover"
+          />
+          <div className="min-w-0">
+            <p className="font-medium line-clamp-2">{item.name}</p>
+            <input
+              ref={urlRef}
+              readOnly
+              value={content.url}
+              aria-label={t("share.link")}
+              onFocus={(e) => e.target.select()}
+              className="w-full bg-transparent text-xs text-muted-foreground truncate outline-none"
+            />
+          </div>
+        </div>
+        <div className="grid gap-3">
+          <Button
+            variant="outline"
+            className="justify-start gap-3"
+            onClick={copyLink}
+          >
+            <Link2 className="w-4 h-4" />
+            {t("share.copy")}
+          </Button>
+          <Button variant="outline" className="justify-start gap-3" asChild>
+            <a
+              href={whatsAppShareUrl(content, t)}
+              target="_blank"
+              rel="noopener noreferrer"
+              onClick={onClose}
+            >
+              <MessageCircle className="w-4 h-4" />
+              {t("share.whatsApp")}
+            </a>
+          </Button>
+          <Button variant="outline" className="justify-start gap-3" asChild>
+            <a href={emailShareUrl(content, t)} onClick={onClose}>
+              <Mail className="w-4 h-4" />
+              {t("share.email")}
+            </a>
+          </Button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+interface ShareNoticeProps {
+  message: string | null;
+  onDismiss: () => void;
+}
+
+const SHARE_NOTICE_MS = 3000;
+
+/** Brief confirmation after copying a share link. */
+export function ShareNotice({ message, onDismiss }: ShareNoticeProps) {
+  useEffect(() => {
+    if (!message) return;
+    const timer = setTimeout(onDismiss, SHARE_NOTICE_MS);
+    return () => clearTimeout(timer);
+  }, [message, onDismiss]);
+
+  return (
+    <AnimatePresence>
+      {message && (
+        <motion.div
+          role="status"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[80] flex items-center gap-2 rounded-full bg-foreground text-background px-4 py-2 shadow-lg"
+        >
+          <Check className="w-4 h-4" />
+          <span className="text-sm font-medium">{message}</span>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
@@ -0,0 +1,54 @@
+import { useEffect, useMemo, useState, type ReactNode } from "react";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import { ThemeContext } from "@/hooks/use-theme";
+import {
+  applyTheme,
+  loadTheme,
+  resolveTheme,
+  saveTheme,
+  systemThemeQuery,
+  THEME_STORAGE_KEY,
+  type ResolvedTheme,
+} from "@/lib/theme";
+
+interface ThemeProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * Owns the light/dark/system choice: persists it, tracks the OS setting
+ * while on "system" and keeps the `.dark` class on <html> in sync.
+ */
+export function ThemeProvider({ children }: ThemeProviderProps) {
+  const [theme, setTheme] = usePersistentState(
+    THEME_STORAGE_KEY,
+    loadTheme,
+    saveTheme
+  );
+  const [systemTheme, setSystemTheme] = useState<ResolvedTheme>(() =>
+    resolveTheme("system")
+  );
+  const resolvedTheme = theme === "system" ? systemTheme : theme;
+
+  useEffect(() => {
+    applyTheme(resolvedTheme);
+  }, [resolvedTheme]);
+
+  useEffect(() => {
+    const query = systemThemeQuery();
+    function onChange() {
+      setSystemTheme(query.matches ? "dark" : "light");
+    }
+    query.addEventListener("change", onChange);
+    return () => query.removeEventListener("change", onChange);
+  }, []);
+
+  const value = useMemo(
+    () => ({ theme, resolvedTheme, setTheme }),
+    [theme, resolvedTheme, setTheme]
+  );
+
+  return (
+    <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>
+  );
+}
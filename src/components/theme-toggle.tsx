@@ -0,0 +1,78 @@
+import type { KeyboardEvent } from "react";
+import { Monitor, Moon, Sun } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import { useTheme } from "@/hooks/use-theme";
+import type { MessageKey } from "@/lib/i18n";
+import type { Theme } from "@/lib/theme";
+import { cn } from "@/lib/utils";
+
+const OPTIONS: { value: Theme; labelKey: MessageKey; icon: typeof Sun }[] = [
+  { value: "light", labelKey: "theme.light", icon: Sun },
+  { value: "dark", labelKey: "theme.dark", icon: Moon },
+  { value: "system", labelKey: "theme.system", icon: Monitor },
+];
+
+interface ThemeToggleProps {
+  className?: string;
+}
+
+/** Segmented light / dark / system switch for the header. */
+export function ThemeToggle({ className }: ThemeToggleProps) {
+  const { theme, setTheme } = useTheme();
+  const { t } = useI18n();
+
+  // Radio group keyboard model: one tab stop, arrows move the selection.
+  function onKeyDown(e: KeyboardEvent<HTMLDivElement>) {
+    const step =
+      e.key === "ArrowRight" || e.key === "ArrowDown"
+        ? 1
+        : e.key === "ArrowLeft" || e.key === "ArrowUp"
+          ? -1
+          : 0;
+    if (!step) return;
+    e.preventDefault();
+    const current = OPTIONS.findIndex((option) => option.value === theme);
+    const next = (current + step + OPTIONS.length) % OPTIONS.length;
+    setTheme(OPTIONS[next].value);
+    const radios =
+      e.currentTarget.querySelectorAll<HTMLButtonElement>("[role=radio]");
+    radios[next]?.focus();
+  }
+
+  return (
+    <div
+      role="radiogroup"
+      aria-label={t("theme.label")}
+      onKeyDown={onKeyDown}
+      className={cn(
+        "inline-flex items-center gap-0.5 rounded-full border border-border bg-muted p-0.5",
+        className
+      )}
+    >
+      {OPTIONS.map(({ value, labelKey, icon: Icon }) => {
+        const checked = theme === value;
+        const label = t(labelKey);
+        return (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={checked}
+            tabIndex={checked ? 0 : -1}
+            aria-label={label}
+            title={label}
+            onClick={() => setTheme(value)}
+            className={cn(
+              "flex h-7 w-7 items-center justify-center rounded-full transition-colors outline-none focus-visible:ring-ring/50 focus-visible:ring-[3px]",
+              checked
+                ? "bg-background text-primary shadow-sm"
+                : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            <Icon className="w-4 h-4" />
+          </button>
+        );
+      })}
+    </div>
+  );
+}
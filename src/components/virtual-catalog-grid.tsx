@@ -0,0 +1,93 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { CatalogGrid } from "@/components/catalog-item-card";
+import { useWindowVirtualizer } from "@/hooks/use-window-virtualizer";
+import type { CatalogItem } from "@/lib/catalog";
+import type { ViewMode } from "@/lib/catalog-query";
+
+// Mirrors the breakpoints in CatalogGrid; each virtual row is one grid row.
+function columnsFor(viewMode: ViewMode, width: number) {
+  if (viewMode === "list") return width >= 768 ? 2 : 1;
+  if (width >= 1280) return 4;
+  if (width >= 1024) return 3;
+  if (width >= 640) return 2;
+  return 1;
+}
+
+const ROW_GAP = { grid: 32, list: 24 };
+/** Card body below the 3:4 image: title, summary, price and actions. */
+const CARD_BODY_HEIGHT = 190;
+
+function useViewportWidth() {
+  const [width, setWidth] = useState(() => window.innerWidth);
+  useEffect(() => {
+    function onResize() {
+      setWidth(window.innerWidth);
+    }
+    window.addEventListener("resize", onResize);
+    return () => window.removeEventListener("resize", onResize);
+  }, []);
+  return width;
+}
+
+interface VirtualCatalogGridProps {
+  items: CatalogItem[];
+  viewMode: ViewMode;
+  /** `index` is the item's position in `items`, `column` its place in the row. */
+  renderItem: (item: CatalogItem, index: number, column: number) => ReactNode;
+}
+
+/**
+ * CatalogGrid for long lists: only the rows near the viewport are mounted,
+ * so an expanded subfolder with hundreds of pieces scrolls smoothly.
+ */
+export function VirtualCatalogGrid({
+  items,
+  viewMode,
+  renderItem,
+}: VirtualCatalogGridProps) {
+  const width = useViewportWidth();
+  const columns = columnsFor(viewMode, width);
+  const gap = ROW_GAP[viewMode];
+  // The catalog is max-w-7xl with px-8 gutters at its widest.
+  const contentWidth = Math.min(width, 1280) - 64;
+  const columnWidth = (contentWidth - gap * (columns - 1)) / columns;
+  const estimateSize = Math.round(
+    (columnWidth * 4) / 3 + CARD_BODY_HEIGHT + gap
+  );
+
+  const { containerRef, measureRow, start, end, paddingTop, paddingBottom } =
+    useWindowVirtualizer({
+      count: Math.ceil(items.length / columns),
+      estimateSize,
+      layoutKey: `${viewMode}:${columns}`,
+    });
+
+  const rows: number[] = [];
+  for (let row = start; row < end; row++) rows.push(row);
+
+  return (
+    <div
+      ref={containerRef}
+      // We compensate for rows resizing above the viewport ourselves, so the
+      // browser's own scroll anchoring would double the correction.
+      style={{ paddingTop, paddingBottom, overflowAnchor: "none" }}
+    >
+      {rows.map((row) => (
+        <div
+          key={row}
+          ref={measureRow}
+          data-index={row}
+          style={{ paddingBottom: gap }}
+        >
+          <CatalogGrid viewMode={viewMode}>
+            {items
+              .slice(row * columns, (row + 1) * columns)
+              .map((item, column) =>
+                renderItem(item, row * columns + column, column)
+              )}
+          </CatalogGrid>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { motion } from "framer-motion";
+import { Heart, ChevronLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CatalogGrid, CatalogItemCard } from "@/components/catalog-item-card";
+import { useI18n } from "@/hooks/use-i18n";
+import type { CatalogEntry, CatalogItem } from "@/lib/catalog";
+
+interface WishlistViewProps {
+  entries: CatalogEntry[];
+  viewMode: "grid" | "list";
+  onBack: () => void;
+  onToggleFavorite: (itemId: string) => void;
+  onOpenLightbox: (items: CatalogItem[], index: number) => void;
+  onOpenDetails: (itemId: string) => void;
+  onAddToCart: (entry: CatalogEntry) => void;
+  onShare: (item: CatalogItem) => void;
+}
+
+export function WishlistView({
+  entries,
+  viewMode,
+  onBack,
+  onToggleFavorite,
+  onOpenLightbox,
+  onOpenDetails,
+  onAddToCart,
+  onShare,
+}: WishlistViewProps) {
+  const { t } = useI18n();
+  const items = entries.map((entry) => entry.item);
+
+  return (
+    <motion.section
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6 }}
+      className="mb-20"
+    >
+      <div className="flex items-center justify-between mb-12">
+        <div className="space-y-2">
+          <h2 className="text-4xl md:text-5xl font-bold text-primary text-balance">
+            {t("wishlist.title")}
+          </h2>
+          <p className="text-muted-foreground">
+            {t("wishlist.saved", { count: entries.length })}
+          </p>
+        </div>
+        <Button variant="outline" onClick={onBack} className="gap-2">
+          <ChevronLeft className="w-4 h-4" />
+          {t("wishlist.back")}
+        </Button>
+      </div>
+
+      {entries.length === 0 ? (
+        <div className="text-center py-16 space-y-4">
+          <Heart className="w-12 h-12 text-muted-foreground mx-auto" />
+          <p className="text-muted-foreground">{t("wishlist.empty")}</p>
+        </div>
+      ) : (
+        <CatalogGrid viewMode={viewMode}>
+          {entries.map((entry, index) => (
+            <CatalogItemCard
+              key={entry.item.id}
+              item={entry.item}
+              index={index}
+              isFavorite
+              onToggleFavorite={() => onToggleFavorite(entry.item.id)}
+              onOpen={() => onOpenLightbox(items, index)}
+              onOpenDetails={() => onOpenDetails(entry.item.id)}
+              onAddToCart={() => onAddToCart(entry)}
+              onShare={() => onShare(entry.item)}
+            />
+          ))}
+        </CatalogGrid>
+      )}
+    </motion.section>
+  );
+}
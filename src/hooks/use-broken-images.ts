@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { getBrokenImages, subscribeBrokenImages } from "@/lib/broken-images";
+
+/** Images that failed to load this session, oldest first. */
+export function useBrokenImages() {
+  return useSyncExternalStore(subscribeBrokenImages, getBrokenImages);
+}
@@ -0,0 +1,48 @@
+import { useCallback, useMemo } from "react";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import {
+  addCartLine,
+  CART_STORAGE_KEY,
+  countCartItems,
+  loadCart,
+  removeCartLine,
+  saveCart,
+  updateCartQuantity,
+  type CartLine,
+} from "@/lib/cart";
+
+export function useCart() {
+  // Kept in sync across tabs: another tab writing the cart reloads it here.
+  const [lines, setLines] = usePersistentState<CartLine[]>(
+    CART_STORAGE_KEY,
+    loadCart,
+    saveCart
+  );
+
+  const addItem = useCallback(
+    (line: CartLine) => {
+      setLines((prev) => addCartLine(prev, line));
+    },
+    [setLines]
+  );
+
+  const updateQuantity = useCallback(
+    (itemId: string, quantity: number) => {
+      setLines((prev) => updateCartQuantity(prev, itemId, quantity));
+    },
+    [setLines]
+  );
+
+  const removeItem = useCallback(
+    (itemId: string) => {
+      setLines((prev) => removeCartLine(prev, itemId));
+    },
+    [setLines]
+  );
+
+  const clear = useCallback(() => setLines([]), [setLines]);
+
+  const count = useMemo(() => countCartItems(lines), [lines]);
+
+  return { lines, count, addItem, updateQuantity, removeItem, clear };
+}
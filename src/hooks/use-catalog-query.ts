@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { useRoute } from "@/hooks/use-route";
+import {
+  buildCatalogSearch,
+  parseCatalogQuery,
+  type CatalogQuery,
+} from "@/lib/catalog-query";
+
+/**
+ * Filter state backed by the URL query string. The URL is the single source
+ * of truth, so back/forward and shared links restore the same view. Updates
+ * replace the current history entry – typing a search shouldn't leave one
+ * back-button stop per keystroke.
+ *
+ * `knownCategoryIds` is null until a fresh catalog has come back from the
+ * network; after that, category ids it doesn't contain are dropped from the
+ * URL.
+ */
+export function useCatalogQuery(knownCategoryIds: Set<string> | null) {
+  const { location, navigate } = useRoute();
+  const query = useMemo(
+    () => parseCatalogQuery(location.search),
+    [location.search]
+  );
+
+  const update = useCallback(
+    (patch: Partial<CatalogQuery>) => {
+      const current = parseCatalogQuery(window.location.search);
+      const search = buildCatalogSearch(window.location.search, {
+        ...current,
+        ...patch,
+      });
+      if (search === window.location.search) return;
+      navigate(window.location.pathname + search, {
+        replace: true,
+        state: window.history.state ?? undefined,
+      });
+    },
+    [navigate]
+  );
+
+  useEffect(() => {
+    if (!knownCategoryIds) return;
+    const known = query.categories.filter((id) => knownCategoryIds.has(id));
+    if (known.length !== query.categories.length) {
+      update({ categories: known });
+    }
+  }, [knownCategoryIds, query.categories, update]);
+
+  const selectedCategories = useMemo(
+    () => new Set(query.categories),
+    [query.categories]
+  );
+
+  return {
+    searchQuery: query.q,
+    selectedCategories,
+    viewMode: query.view,
+    sort: query.sort,
+    facets: query.facets,
+    update,
+  };
+}
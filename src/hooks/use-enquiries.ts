@@ -0,0 +1,26 @@
+import { useCallback } from "react";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import {
+  addEnquiry,
+  ENQUIRIES_STORAGE_KEY,
+  loadEnquiries,
+  saveEnquiries,
+  type Enquiry,
+} from "@/lib/enquiry";
+
+export function useEnquiries() {
+  const [enquiries, setEnquiries] = usePersistentState<Enquiry[]>(
+    ENQUIRIES_STORAGE_KEY,
+    loadEnquiries,
+    saveEnquiries
+  );
+
+  const saveEnquiry = useCallback(
+    (enquiry: Enquiry) => {
+      setEnquiries((prev) => addEnquiry(prev, enquiry));
+    },
+    [setEnquiries]
+  );
+
+  return { enquiries, saveEnquiry };
+}
@@ -0,0 +1,52 @@
+import { useEffect, useRef } from "react";
+import { createOverlayStack } from "@/lib/overlay-stack";
+
+// Keys go to one layer at a time: the most recently opened overlay.
+const keyLayers = createOverlayStack();
+
+type KeyHandlers = Partial<Record<string, () => void>>;
+
+function isFormControl(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ["INPUT", "SELECT", "TEXTAREA"].includes(target.tagName))
+  );
+}
+
+/**
+ * Calls the handler for a pressed key (`KeyboardEvent.key`) while `active`
+ * and this is the topmost overlay. Presses already handled by something
+ * inside it (e.g. a search box closing its suggestions) are left alone, and
+ * so is every key but Escape while a form control has focus – arrows in a
+ * <select> belong to the select.
+ */
+export function useOverlayKeys(handlers: KeyHandlers, active: boolean) {
+  const handlersRef = useRef(handlers);
+
+  useEffect(() => {
+    handlersRef.current = handlers;
+  });
+
+  useEffect(() => {
+    if (!active) return;
+    const layer = keyLayers.push();
+    function onKeyDown(e: KeyboardEvent) {
+      const handler = handlersRef.current[e.key];
+      if (!handler || e.defaultPrevented || !keyLayers.isTop(layer)) return;
+      if (e.key !== "Escape" && isFormControl(e.target)) return;
+      e.preventDefault();
+      handler();
+    }
+    window.addEventListener("keydown", onKeyDown);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      keyLayers.remove(layer);
+    };
+  }, [active]);
+}
+
+/** Calls `onEscape` when Escape is pressed in the topmost overlay. */
+export function useEscapeKey(onEscape: () => void, active: boolean) {
+  useOverlayKeys({ Escape: onEscape }, active);
+}
@@ -0,0 +1,41 @@
+import { useCallback } from "react";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import {
+  FAVORITES_STORAGE_KEY,
+  loadFavorites,
+  pruneFavorites,
+  saveFavorites,
+} from "@/lib/favorites";
+
+export function useFavorites() {
+  const [favorites, setFavorites] = usePersistentState<Set<string>>(
+    FAVORITES_STORAGE_KEY,
+    loadFavorites,
+    saveFavorites
+  );
+
+  const toggleFavorite = useCallback(
+    (itemId: string) => {
+      setFavorites((prev) => {
+        const newFavorites = new Set(prev);
+        if (newFavorites.has(itemId)) {
+          newFavorites.delete(itemId);
+        } else {
+          newFavorites.add(itemId);
+        }
+        return newFavorites;
+      });
+    },
+    [setFavorites]
+  );
+
+  /** Prune ids that are missing from a freshly loaded catalog. */
+  const reconcile = useCallback(
+    (knownIds: { has(id: string): boolean }) => {
+      setFavorites((prev) => pruneFavorites(prev, knownIds));
+    },
+    [setFavorites]
+  );
+
+  return { favorites, toggleFavorite, reconcile };
+}
@@ -0,0 +1,72 @@
+import { useEffect, type RefObject } from "react";
+import { createOverlayStack } from "@/lib/overlay-stack";
+
+const FOCUSABLE = [
+  "a[href]",
+  "button:not([disabled])",
+  "input:not([disabled])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  '[tabindex]:not([tabindex="-1"])',
+].join(",");
+
+// Only the most recently activated trap handles Tab, so a dialog opened
+// from inside another one isn't fought over by both.
+const traps = createOverlayStack();
+
+function focusableIn(container: HTMLElement) {
+  return Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(
+    (el) => el.getClientRects().length > 0
+  );
+}
+
+/**
+ * Keeps Tab / Shift+Tab inside `containerRef` while `active`, moves focus
+ * into it on activation and hands focus back to whatever had it before
+ * once deactivated – the keyboard half of a modal dialog. Traps nest: while
+ * a later one is active, earlier ones leave Tab alone.
+ */
+export function useFocusTrap(
+  containerRef: RefObject<HTMLElement | null>,
+  active: boolean
+) {
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!active || !container) return;
+
+    const layer = traps.push();
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    if (!container.contains(document.activeElement)) {
+      (focusableIn(container)[0] ?? container).focus();
+    }
+
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key !== "Tab" || !container || !traps.isTop(layer)) return;
+      const focusable = focusableIn(container);
+      if (focusable.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const current = document.activeElement;
+      if (e.shiftKey && (current === first || !container.contains(current))) {
+        e.preventDefault();
+        last.focus();
+      } else if (
+        !e.shiftKey &&
+        (current === last || !container.contains(current))
+      ) {
+        e.preventDefault();
+        first.focus();
+      }
+    }
+
+    document.addEventListener("keydown", onKeyDown);
+    return () => {
+      document.removeEventListener("keydown", onKeyDown);
+      traps.remove(layer);
+      previouslyFocused?.focus?.();
+    };
+  }, [containerRef, active]);
+}
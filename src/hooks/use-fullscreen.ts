@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState, type RefObject } from "react";
+
+/**
+ * Fullscreen API toggle for one element. `supported` is false on browsers
+ * (notably iPhone Safari) that only allow fullscreen video.
+ */
+export function useFullscreen(elementRef: RefObject<HTMLElement | null>) {
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const supported =
+    typeof document !== "undefined" && document.fullscreenEnabled === true;
+
+  useEffect(() => {
+    function onChange() {
+      setIsFullscreen(
+        document.fullscreenElement !== null &&
+          document.fullscreenElement === elementRef.current
+      );
+    }
+    document.addEventListener("fullscreenchange", onChange);
+    return () => document.removeEventListener("fullscreenchange", onChange);
+  }, [elementRef]);
+
+  // Leaving fullscreen behind when the element goes away would strand the
+  // page in it.
+  useEffect(() => {
+    const element = elementRef.current;
+    return () => {
+      if (element && document.fullscreenElement === element) {
+        document.exitFullscreen().catch(() => {});
+      }
+    };
+  }, [elementRef]);
+
+  const toggle = useCallback(() => {
+    const element = elementRef.current;
+    if (!element || !supported) return;
+    const request =
+      document.fullscreenElement === element
+        ? document.exitFullscreen()
+        : element.requestFullscreen();
+    request.catch((err) => console.warn("Fullscreen request failed:", err));
+  }, [elementRef, supported]);
+
+  return { isFullscreen, supported, toggle };
+}
@@ -0,0 +1,14 @@
+import { createContext, useContext } from "react";
+import type { I18n, Locale } from "@/lib/i18n";
+
+export interface I18nContextValue extends I18n {
+  setLocale: (locale: Locale) => void;
+}
+
+export const I18nContext = createContext<I18nContextValue | null>(null);
+
+export function useI18n() {
+  const context = useContext(I18nContext);
+  if (!context) throw new Error("useI18n must be used within <I18nProvider>");
+  return context;
+}
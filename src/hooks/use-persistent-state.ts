@@ -0,0 +1,39 @@
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * useState mirrored to localStorage: `load` seeds it, every change is passed
+ * to `save`, and another tab writing `key` reloads it. Values that were just
+ * read from storage are never written back, so open tabs can't keep echoing
+ * each other's writes.
+ *
+ * `load` and `save` should be stable, module-level functions.
+ */
+export function usePersistentState<T>(
+  key: string,
+  load: () => T,
+  save: (value: T) => void
+) {
+  const [value, setValue] = useState<T>(load);
+  // Boxed so a stored `null` or `undefined` still counts as "just read".
+  const readRef = useRef<{ value: T } | null>({ value });
+
+  useEffect(() => {
+    const justRead =
+      readRef.current !== null && readRef.current.value === value;
+    readRef.current = null;
+    if (!justRead) save(value);
+  }, [value, save]);
+
+  useEffect(() => {
+    function onStorage(e: StorageEvent) {
+      if (e.key !== null && e.key !== key) return;
+      const next = load();
+      readRef.current = { value: next };
+      setValue(next);
+    }
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, [key, load]);
+
+  return [value, setValue] as const;
+}
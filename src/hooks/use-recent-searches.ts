@@ -0,0 +1,27 @@
+import { useCallback } from "react";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import {
+  addRecentSearch,
+  loadRecentSearches,
+  RECENT_SEARCHES_STORAGE_KEY,
+  saveRecentSearches,
+} from "@/lib/recent-searches";
+
+export function useRecentSearches() {
+  const [recent, setRecent] = usePersistentState<string[]>(
+    RECENT_SEARCHES_STORAGE_KEY,
+    loadRecentSearches,
+    saveRecentSearches
+  );
+
+  const addSearch = useCallback(
+    (query: string) => {
+      setRecent((prev) => addRecentSearch(prev, query));
+    },
+    [setRecent]
+  );
+
+  const clearSearches = useCallback(() => setRecent([]), [setRecent]);
+
+  return { recent, addSearch, clearSearches };
+}
@@ -0,0 +1,28 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  NAVIGATE_EVENT,
+  navigate,
+  parseRoute,
+  readLocation,
+  type RouterLocation,
+} from "@/lib/router";
+
+export function useRoute() {
+  const [location, setLocation] = useState<RouterLocation>(readLocation);
+
+  useEffect(() => {
+    function sync() {
+      setLocation(readLocation());
+    }
+    window.addEventListener("popstate", sync);
+    window.addEventListener(NAVIGATE_EVENT, sync);
+    return () => {
+      window.removeEventListener("popstate", sync);
+      window.removeEventListener(NAVIGATE_EVENT, sync);
+    };
+  }, []);
+
+  const route = useMemo(() => parseRoute(location.pathname), [location]);
+
+  return { location, route, navigate };
+}
@@ -0,0 +1,22 @@
+import { useEffect } from "react";
+
+// Counted so overlapping overlays (a drawer opening over the lightbox)
+// don't unlock the page when the first of them closes.
+let locks = 0;
+let previousOverflow = "";
+
+/** Stops the page behind an overlay from scrolling while `active`. */
+export function useScrollLock(active: boolean) {
+  useEffect(() => {
+    if (!active) return;
+    if (locks === 0) {
+      previousOverflow = document.body.style.overflow;
+      document.body.style.overflow = "hidden";
+    }
+    locks++;
+    return () => {
+      locks--;
+      if (locks === 0) document.body.style.overflow = previousOverflow;
+    };
+  }, [active]);
+}
@@ -0,0 +1,25 @@
+import { useCallback } from "react";
+import { usePersistentState } from "@/hooks/use-persistent-state";
+import {
+  loadSlideshowSettings,
+  saveSlideshowSettings,
+  SLIDESHOW_STORAGE_KEY,
+  type SlideshowSettings,
+} from "@/lib/slideshow";
+
+export function useSlideshowSettings() {
+  const [settings, setSettings] = usePersistentState<SlideshowSettings>(
+    SLIDESHOW_STORAGE_KEY,
+    loadSlideshowSettings,
+    saveSlideshowSettings
+  );
+
+  const updateSettings = useCallback(
+    (patch: Partial<SlideshowSettings>) => {
+      setSettings((prev) => ({ ...prev, ...patch }));
+    },
+    [setSettings]
+  );
+
+  return { settings, updateSettings };
+}
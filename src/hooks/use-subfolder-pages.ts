@@ -0,0 +1,100 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type Dispatch,
+  type SetStateAction,
+} from "react";
+import { fetchSubfolderPage } from "@/lib/api";
+import { HttpError, isAbortError } from "@/lib/api-errors";
+import {
+  appendSubfolderPage,
+  subfolderKey,
+  type Category,
+  type Subfolder,
+} from "@/lib/catalog";
+
+export interface SubfolderPageState {
+  loading: boolean;
+  error: unknown;
+}
+
+/**
+ * Lazily fetches further pages of subfolders whose backend pages them
+ * (`Subfolder.nextCursor`) and appends them to the catalog. Subfolders
+ * without a cursor already hold everything, so `loadMore` is a no-op.
+ */
+export function useSubfolderPages(
+  setCatalog: Dispatch<SetStateAction<Category[]>>
+) {
+  const [pageStates, setPageStates] = useState<
+    Record<string, SubfolderPageState>
+  >({});
+  const inFlightRef = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    const inFlight = inFlightRef.current;
+    return () => {
+      for (const controller of inFlight.values()) controller.abort();
+    };
+  }, []);
+
+  const loadMore = useCallback(
+    async (categoryId: string, subfolder: Subfolder) => {
+      const cursor = subfolder.nextCursor;
+      const key = subfolderKey(categoryId, subfolder.id);
+      if (!cursor || inFlightRef.current.has(key)) return;
+
+      const controller = new AbortController();
+      inFlightRef.current.set(key, controller);
+      setPageStates((prev) => ({
+        ...prev,
+        [key]: { loading: true, error: null },
+      }));
+
+      try {
+        const page = await fetchSubfolderPage(
+          categoryId,
+          subfolder.id,
+          cursor,
+          { signal: controller.signal }
+        );
+        setCatalog((prev) =>
+          appendSubfolderPage(prev, categoryId, subfolder.id, cursor, page)
+        );
+        setPageStates((prev) => ({
+          ...prev,
+          [key]: { loading: false, error: null },
+        }));
+      } catch (err) {
+        if (isAbortError(err)) return;
+        if (err instanceof HttpError && err.status === 404) {
+          // No paging endpoint after all: keep what the catalog embedded.
+          console.warn(
+            `Paging isn't available for "${subfolder.name}", showing the embedded items only.`
+          );
+          setCatalog((prev) =>
+            appendSubfolderPage(prev, categoryId, subfolder.id, cursor, {
+              items: [],
+            })
+          );
+          setPageStates((prev) => ({
+            ...prev,
+            [key]: { loading: false, error: null },
+          }));
+          return;
+        }
+        setPageStates((prev) => ({
+          ...prev,
+          [key]: { loading: false, error: err },
+        }));
+      } finally {
+        inFlightRef.current.delete(key);
+      }
+    },
+    [setCatalog]
+  );
+
+  return { pageStates, loadMore };
+}
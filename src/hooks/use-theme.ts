@@ -0,0 +1,18 @@
+import { createContext, useContext } from "react";
+import type { ResolvedTheme, Theme } from "@/lib/theme";
+
+export interface ThemeContextValue {
+  /** The user's choice, possibly "system". */
+  theme: Theme;
+  /** What is actually on screen. */
+  resolvedTheme: ResolvedTheme;
+  setTheme: (theme: Theme) => void;
+}
+
+export const ThemeContext = createContext<ThemeContextValue | null>(null);
+
+export function useTheme() {
+  const context = useContext(ThemeContext);
+  if (!context) throw new Error("useTheme must be used within <ThemeProvider>");
+  return context;
+}
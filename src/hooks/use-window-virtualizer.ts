@@ -0,0 +1,161 @@
+import {
+  useCallback,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+interface WindowVirtualizerOptions {
+  /** Number of rows. */
+  count: number;
+  /** Height assumed for rows that haven't been rendered yet, in px. */
+  estimateSize: number;
+  /** Rows rendered beyond each edge of the viewport. */
+  overscan?: number;
+  /** Changing this discards measured heights (e.g. the column count changed). */
+  layoutKey?: string | number;
+}
+
+/**
+ * Windowing for a list of rows inside the normally scrolling page. Only rows
+ * near the viewport are mounted; the rest are stood in for by top/bottom
+ * padding built from measured (or estimated) row heights.
+ *
+ * Rendered rows must be given `measureRow` as their ref and `data-index`.
+ * When a row above the viewport turns out taller or shorter than estimated,
+ * the page is scrolled by the difference so what's on screen doesn't jump.
+ */
+export function useWindowVirtualizer({
+  count,
+  estimateSize,
+  overscan = 2,
+  layoutKey,
+}: WindowVirtualizerOptions) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const [sizes, setSizes] = useState(() => new Map<number, number>());
+  const sizesRef = useRef(sizes);
+  const estimateRef = useRef(estimateSize);
+  const [range, setRange] = useState(() => ({
+    start: 0,
+    end: Math.min(count, overscan + 1),
+  }));
+
+  useEffect(() => {
+    estimateRef.current = estimateSize;
+  }, [estimateSize]);
+
+  // Row heights are only meaningful for the layout they were measured in.
+  const [measuredFor, setMeasuredFor] = useState(layoutKey);
+  if (measuredFor !== layoutKey) {
+    setMeasuredFor(layoutKey);
+    setSizes(new Map());
+  }
+  useEffect(() => {
+    sizesRef.current = sizes;
+  }, [sizes]);
+
+  const sizeOf = useCallback(
+    (index: number) => sizes.get(index) ?? estimateSize,
+    [sizes, estimateSize]
+  );
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const top = container.getBoundingClientRect().top;
+    const viewStart = -top;
+    const viewEnd = viewStart + window.innerHeight;
+
+    let start = 0;
+    let offset = 0;
+    while (start < count && offset + sizeOf(start) <= viewStart) {
+      offset += sizeOf(start);
+      start++;
+    }
+    let end = start;
+    while (end < count && offset < viewEnd) {
+      offset += sizeOf(end);
+      end++;
+    }
+    const next = {
+      start: Math.max(0, start - overscan),
+      end: Math.min(count, Math.max(end, start + 1) + overscan),
+    };
+    setRange((prev) =>
+      prev.start === next.start && prev.end === next.end ? prev : next
+    );
+  }, [count, overscan, sizeOf]);
+
+  useLayoutEffect(() => {
+    updateRange();
+  }, [updateRange]);
+
+  useEffect(() => {
+    let frame = 0;
+    function schedule() {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateRange);
+    }
+    window.addEventListener("scroll", schedule, { passive: true });
+    window.addEventListener("resize", schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", schedule);
+      window.removeEventListener("resize", schedule);
+    };
+  }, [updateRange]);
+
+  // ---- Measuring ----
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  const onResize = useCallback((entries: ResizeObserverEntry[]) => {
+    let next = sizesRef.current;
+    let shift = 0;
+    for (const entry of entries) {
+      const row = entry.target as HTMLElement;
+      const index = Number(row.dataset.index);
+      const size = row.offsetHeight;
+      const previous = next.get(index) ?? estimateRef.current;
+      if (next.get(index) === size) continue;
+      if (next === sizesRef.current) next = new Map(next);
+      next.set(index, size);
+      if (row.getBoundingClientRect().top < 0) shift += size - previous;
+    }
+    if (next === sizesRef.current) return;
+    sizesRef.current = next;
+    setSizes(next);
+    if (shift !== 0) window.scrollBy(0, shift);
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const measureRow = useCallback(
+    (row: HTMLElement | null) => {
+      if (!row) return;
+      observerRef.current ??= new ResizeObserver(onResize);
+      const observer = observerRef.current;
+      observer.observe(row);
+      return () => observer.unobserve(row);
+    },
+    [onResize]
+  );
+
+  const { paddingTop, paddingBottom } = useMemo(() => {
+    let before = 0;
+    let after = 0;
+    for (let i = 0; i < range.start; i++) before += sizeOf(i);
+    for (let i = range.end; i < count; i++) after += sizeOf(i);
+    return { paddingTop: before, paddingBottom: after };
+  }, [range, count, sizeOf]);
+
+  return {
+    containerRef,
+    measureRow,
+    start: range.start,
+    end: Math.min(range.end, count),
+    paddingTop,
+    paddingBottom,
+  };
+}
@@ -0,0 +1,30 @@
+// ---------- Screen reader announcements ----------
+// One polite live region for the whole page (see <LiveAnnouncer>). Anything
+// that changes content out of view — filter results, cart, wishlist —
+// reports a short sentence here instead of managing its own region.
+
+export interface Announcement {
+  message: string;
+  /** Increments on every call so a repeated message is still read out. */
+  id: number;
+}
+
+const listeners = new Set<() => void>();
+let snapshot: Announcement = { message: "", id: 0 };
+
+export function announce(message: string) {
+  snapshot = { message, id: snapshot.id + 1 };
+  for (const listener of listeners) listener();
+}
+
+// ---- useSyncExternalStore plumbing ----
+export function subscribeAnnouncements(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getAnnouncement() {
+  return snapshot;
+}
@@ -0,0 +1,130 @@
+import type { Translate } from "@/lib/i18n";
+
+// ---------- API errors ----------
+// One class per failure mode so the UI can tell "you're offline" apart from
+// "the server is broken" apart from "the server sent something we can't read".
+
+export class ApiError extends Error {
+  readonly url: string;
+
+  constructor(message: string, url: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "ApiError";
+    this.url = url;
+  }
+}
+
+/** The request never produced a response (offline, DNS, CORS, aborted). */
+export class NetworkError extends ApiError {
+  constructor(url: string, cause?: unknown) {
+    super(`Network request to ${url} failed`, url, { cause });
+    this.name = "NetworkError";
+  }
+}
+
+/** No response arrived within the per-request time limit. */
+export class TimeoutError extends ApiError {
+  readonly timeoutMs: number;
+
+  constructor(url: string, timeoutMs: number) {
+    super(`${url} did not respond within ${timeoutMs / 1000}s`, url);
+    this.name = "TimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** The server answered with a non-2xx status. */
+export class HttpError extends ApiError {
+  readonly status: number;
+  readonly statusText: string;
+
+  constructor(url: string, status: number, statusText: string) {
+    super(`${url} responded with ${status} ${statusText}`.trim(), url);
+    this.name = "HttpError";
+    this.status = status;
+    this.statusText = statusText;
+  }
+}
+
+export interface SchemaIssue {
+  /** JSON-path-like location, e.g. `$[2].subfolders[0].id`. */
+  path: string;
+  message: string;
+}
+
+/** The response body was not JSON, or not the shape we expect. */
+export class SchemaError extends ApiError {
+  readonly issues: SchemaIssue[];
+
+  constructor(url: string, issues: SchemaIssue[]) {
+    super(
+      `Unexpected response from ${url}: ${issues
+        .slice(0, 3)
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join("; ")}`,
+      url
+    );
+    this.name = "SchemaError";
+    this.issues = issues;
+  }
+}
+
+/** True for errors caused by the caller cancelling the request. */
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/** Failures worth another attempt: the server may just be waking up. */
+export function isRetryableError(error: unknown) {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return true;
+  }
+  if (error instanceof HttpError) {
+    return error.status >= 500 || error.status === 408 || error.status === 429;
+  }
+  return false;
+}
+
+// ---- Presentation ----
+export function describeApiError(
+  error: unknown,
+  t: Translate
+): {
+  title: string;
+  message: string;
+} {
+  if (error instanceof NetworkError) {
+    return {
+      title: t("error.network.title"),
+      message: t("error.network.message"),
+    };
+  }
+  if (error instanceof TimeoutError) {
+    return {
+      title: t("error.timeout.title"),
+      message: t("error.timeout.message"),
+    };
+  }
+  if (error instanceof HttpError) {
+    // The status is a code, not a quantity: keep it in Latin digits.
+    const status = String(error.status);
+    return {
+      title: t("error.http.title"),
+      message:
+        error.status >= 500
+          ? t("error.http.server", { status })
+          : t("error.http.refused", { status }),
+    };
+  }
+  if (error instanceof SchemaError) {
+    return {
+      title: t("error.schema.title"),
+      message: t("error.schema.message", { count: error.issues.length }),
+    };
+  }
+  return {
+    title: t("error.unknown.title"),
+    message:
+      error instanceof Error ? error.message : t("error.unknown.message"),
+  };
+}
@@ -0,0 +1,224 @@
+import {
+  HttpError,
+  NetworkError,
+  SchemaError,
+  TimeoutError,
+} from "@/lib/api-errors";
+import type { CatalogItem, Category } from "@/lib/catalog";
+import { parseCatalog, parseSubfolderPage } from "@/lib/catalog-schema";
+import { withRetry, type RetryOptions } from "@/lib/retry";
+
+// ---------- Catalog API client ----------
+// Point the app at another backend with VITE_API_BASE, e.g. in .env.local:
+//   VITE_API_BASE=http://localhost:5000
+export const API_BASE = (
+  import.meta.env.VITE_API_BASE || "https://saree-backend-j7zj.onrender.com"
+).replace(/\/+$/, "");
+
+export const DEFAULT_TIMEOUT_MS = 20_000;
+
+export function apiUrl(path: string) {
+  return `${API_BASE}${path}`;
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  /** Per-request limit; 0 disables the timeout. */
+  timeoutMs?: number;
+}
+
+export interface JsonRequestOptions extends RequestOptions {
+  /** Sent as a JSON POST body; without it the request is a GET. */
+  body?: unknown;
+  /** Sees every successful response before its body is read. */
+  onResponse?: (res: Response) => void;
+}
+
+// The service worker (public/sw.js) stamps the catalog responses it replays
+// while offline with the time it saved them; fresh responses never carry it.
+export const SW_CACHED_AT_HEADER = "X-SW-Cached-At";
+
+/** When the service worker saved `res`, or null for a network response. */
+export function serviceWorkerCachedAt(res: Response): Date | null {
+  const value = res.headers.get(SW_CACHED_AT_HEADER);
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * GET (or, with `body`, POST) a JSON document, throwing NetworkError /
+ * TimeoutError / HttpError / SchemaError. Cancelling `signal` rejects with
+ * the signal's abort reason. An empty 204 response resolves to null.
+ */
+export async function fetchJson(
+  url: string,
+  {
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    body,
+    onResponse,
+  }: JsonRequestOptions = {}
+): Promise<unknown> {
+  signal?.throwIfAborted();
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const timer =
+    timeoutMs > 0
+      ? setTimeout(
+          () => controller.abort(new TimeoutError(url, timeoutMs)),
+          timeoutMs
+        )
+      : undefined;
+
+  try {
+    let res: Response;
+    try {
+      res = await fetch(
+        url,
+        body === undefined
+          ? {
+              signal: controller.signal,
+              headers: { Accept: "application/json" },
+            }
+          : {
+              method: "POST",
+              signal: controller.signal,
+              headers: {
+                Accept: "application/json",
+                "Content-Type": "application/json",
+              },
+              body: JSON.stringify(body),
+            }
+      );
+    } catch (err) {
+      if (controller.signal.aborted) throw controller.signal.reason;
+      throw new NetworkError(url, err);
+    }
+
+    if (!res.ok) throw new HttpError(url, res.status, res.statusText);
+    onResponse?.(res);
+    if (res.status === 204) return null;
+
+    try {
+      return await res.json();
+    } catch (err) {
+      if (controller.signal.aborted) throw controller.signal.reason;
+      throw new SchemaError(url, [
+        { path: "$", message: `is not valid JSON (${String(err)})` },
+      ]);
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+export type FetchCatalogOptions = RequestOptions &
+  Pick<RetryOptions, "attempts" | "onAttempt">;
+
+export interface FetchedCatalog {
+  catalog: Category[];
+  /**
+   * Set when the service worker answered from its cache because the network
+   * was unreachable: the catalog is a saved copy from this time.
+   */
+  cachedAt: Date | null;
+}
+
+export async function fetchCatalog({
+  signal,
+  timeoutMs,
+  attempts,
+  onAttempt,
+}: FetchCatalogOptions = {}): Promise<FetchedCatalog> {
+  const url = apiUrl("/api/catalog");
+  let cachedAt: Date | null = null;
+  const data = await withRetry(
+    () =>
+      fetchJson(url, {
+        signal,
+        timeoutMs,
+        onResponse: (res) => {
+          cachedAt = serviceWorkerCachedAt(res);
+        },
+      }),
+    { signal, attempts, onAttempt }
+  );
+  const { catalog, issues } = parseCatalog(data, url);
+  if (issues.length > 0) {
+    console.warn(
+      `Catalog response had ${issues.length} malformed entries that were skipped:`,
+      issues
+    );
+  }
+  return { catalog, cachedAt };
+}
+
+export const SUBFOLDER_PAGE_SIZE = 48;
+
+/**
+ * GET the page of a subfolder starting at `cursor`. Numeric cursors are
+ * offsets and are sent as `offset` too; a cursor that is itself a URL (a
+ * `next` link) is followed as-is.
+ */
+export async function fetchSubfolderPage(
+  categoryId: string,
+  subfolderId: string,
+  cursor: string,
+  { signal, timeoutMs }: RequestOptions = {}
+): Promise<{ items: CatalogItem[]; nextCursor?: string }> {
+  let url: string;
+  if (/^(https?:\/\/|\/)/.test(cursor)) {
+    url = new URL(cursor, `${API_BASE}/`).href;
+  } else {
+    const params = new URLSearchParams({
+      cursor,
+      limit: String(SUBFOLDER_PAGE_SIZE),
+    });
+    if (/^\d+$/.test(cursor)) params.set("offset", cursor);
+    url = apiUrl(
+      `/api/catalog/${encodeURIComponent(categoryId)}/${encodeURIComponent(
+        subfolderId
+      )}?${params}`
+    );
+  }
+  const data = await withRetry(() => fetchJson(url, { signal, timeoutMs }), {
+    signal,
+    attempts: 3,
+  });
+  return parseSubfolderPage(data, url, cursor);
+}
+
+// ---------- Enquiries ----------
+// Order enquiries are POSTed to VITE_ENQUIRY_ENDPOINT, a path on API_BASE or
+// a full URL. Set it to an empty string to offer WhatsApp checkout only.
+const ENQUIRY_ENDPOINT =
+  import.meta.env.VITE_ENQUIRY_ENDPOINT ?? "/api/enquiries";
+
+export const ENQUIRIES_ENABLED = ENQUIRY_ENDPOINT.trim() !== "";
+
+/**
+ * POST an enquiry once – it is not idempotent, so unlike the catalog reads
+ * it is never retried. Resolves to the reference the backend assigned, if
+ * it returned one.
+ */
+export async function submitEnquiry(
+  payload: unknown,
+  { signal, timeoutMs }: RequestOptions = {}
+): Promise<string | undefined> {
+  const url = /^https?:\/\//.test(ENQUIRY_ENDPOINT)
+    ? ENQUIRY_ENDPOINT
+    : apiUrl(ENQUIRY_ENDPOINT);
+  const data = await fetchJson(url, { signal, timeoutMs, body: payload });
+  if (data && typeof data === "object") {
+    const { reference, id } = data as Record<string, unknown>;
+    const value = reference ?? id;
+    if (typeof value === "string" || typeof value === "number") {
+      return String(value);
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,49 @@
+// ---------- Broken image registry ----------
+// Images that failed even after the fallback URL are recorded here so the
+// lightbox can skip them and the debug panel (?debug=images) can list
+// them. It's module state rather than React state because any number of
+// <ResponsiveImage>s report into it.
+
+export interface BrokenImage {
+  /** Item id, or the URL itself when the image isn't tied to an item. */
+  id: string;
+  src: string;
+  failedAt: string;
+}
+
+const broken = new Map<string, BrokenImage>();
+const listeners = new Set<() => void>();
+let snapshot: BrokenImage[] = [];
+
+function emit() {
+  snapshot = Array.from(broken.values());
+  for (const listener of listeners) listener();
+}
+
+export function reportBrokenImage(id: string, src: string) {
+  if (broken.has(id)) return;
+  console.warn(`Image for "${id}" failed to load:`, src);
+  broken.set(id, { id, src, failedAt: new Date().toISOString() });
+  emit();
+}
+
+export function isImageBroken(id: string) {
+  return broken.has(id);
+}
+
+export function clearBrokenImages() {
+  broken.clear();
+  emit();
+}
+
+// ---- useSyncExternalStore plumbing ----
+export function subscribeBrokenImages(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getBrokenImages() {
+  return snapshot;
+}
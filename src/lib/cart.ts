@@ -0,0 +1,103 @@
+import type { CatalogItem, Category, Subfolder } from "@/lib/catalog";
+import { readStorage, writeStorage } from "@/lib/storage";
+
+// ---------- Types ----------
+export interface CartLine {
+  itemId: string;
+  name: string;
+  image: string | null;
+  categoryId: string;
+  categoryName: string;
+  subfolderId: string;
+  subfolderName: string;
+  /** Unit price when the item was added; absent for unpriced pieces. */
+  price?: number;
+  quantity: number;
+}
+
+interface StoredCart {
+  version: 1;
+  lines: CartLine[];
+}
+
+export const CART_STORAGE_KEY = "saree-studio:cart";
+export const MAX_LINE_QUANTITY = 10;
+
+// ---- Persistence ----
+export function loadCart(): CartLine[] {
+  const stored = readStorage<StoredCart>(CART_STORAGE_KEY);
+  if (!stored || stored.version !== 1 || !Array.isArray(stored.lines)) {
+    return [];
+  }
+  return stored.lines.filter(
+    (line) => typeof line?.itemId === "string" && line.quantity > 0
+  );
+}
+
+export function saveCart(lines: CartLine[]) {
+  const stored: StoredCart = { version: 1, lines };
+  writeStorage(CART_STORAGE_KEY, stored);
+}
+
+// ---- Line operations ----
+function clampQuantity(quantity: number) {
+  return Math.min(MAX_LINE_QUANTITY, Math.max(0, Math.floor(quantity)));
+}
+
+export function createCartLine(
+  item: CatalogItem,
+  category: Pick<Category, "id" | "name">,
+  sub: Pick<Subfolder, "id" | "name">
+): CartLine {
+  return {
+    itemId: item.id,
+    name: item.name,
+    image: item.image,
+    categoryId: category.id,
+    categoryName: category.name,
+    subfolderId: sub.id,
+    subfolderName: sub.name,
+    price: item.price,
+    quantity: 1,
+  };
+}
+
+export function addCartLine(lines: CartLine[], line: CartLine): CartLine[] {
+  const existing = lines.find((l) => l.itemId === line.itemId);
+  if (!existing)
+    return [...lines, { ...line, quantity: clampQuantity(line.quantity) }];
+  return lines.map((l) =>
+    l.itemId === line.itemId
+      ? { ...l, quantity: clampQuantity(l.quantity + line.quantity) }
+      : l
+  );
+}
+
+export function updateCartQuantity(
+  lines: CartLine[],
+  itemId: string,
+  quantity: number
+): CartLine[] {
+  const next = clampQuantity(quantity);
+  if (next === 0) return removeCartLine(lines, itemId);
+  return lines.map((l) => (l.itemId === itemId ? { ...l, quantity: next } : l));
+}
+
+export function removeCartLine(lines: CartLine[], itemId: string): CartLine[] {
+  return lines.filter((l) => l.itemId !== itemId);
+}
+
+export function countCartItems(lines: CartLine[]) {
+  return lines.reduce((total, line) => total + line.quantity, 0);
+}
+
+/** Sum of priced lines, plus whether any line had no price to add. */
+export function cartSubtotal(lines: CartLine[]) {
+  let subtotal = 0;
+  let hasUnpriced = false;
+  for (const line of lines) {
+    if (line.price === undefined) hasUnpriced = true;
+    else subtotal += line.price * line.quantity;
+  }
+  return { subtotal, hasUnpriced };
+}
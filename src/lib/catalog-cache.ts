@@ -0,0 +1,46 @@
+import type { Category } from "@/lib/catalog";
+import { readStorage, removeStorage, writeStorage } from "@/lib/storage";
+
+// ---------- Saved catalog ----------
+// The last successfully fetched catalog, rendered instantly on the next
+// visit while a fresh copy is fetched in the background.
+
+interface StoredCatalog {
+  version: 1;
+  savedAt: string;
+  catalog: Category[];
+}
+
+export interface CachedCatalog {
+  catalog: Category[];
+  savedAt: Date;
+}
+
+const CATALOG_CACHE_KEY = "saree-studio:catalog";
+// localStorage is typically capped at ~5 MB per origin (UTF-16, so ~2.5M
+// chars); leave room for the cart, wishlist and everything else.
+const MAX_CACHE_CHARS = 1_500_000;
+
+export function loadCachedCatalog(): CachedCatalog | null {
+  const stored = readStorage<StoredCatalog>(CATALOG_CACHE_KEY);
+  if (!stored || stored.version !== 1 || !Array.isArray(stored.catalog)) {
+    return null;
+  }
+  return { catalog: stored.catalog, savedAt: new Date(stored.savedAt) };
+}
+
+export function saveCachedCatalog(catalog: Category[]) {
+  const stored: StoredCatalog = {
+    version: 1,
+    savedAt: new Date().toISOString(),
+    catalog,
+  };
+  if (!writeStorage(CATALOG_CACHE_KEY, stored, { maxChars: MAX_CACHE_CHARS })) {
+    // Better no saved copy than a stale one that never gets replaced.
+    removeStorage(CATALOG_CACHE_KEY);
+  }
+}
+
+export function catalogsEqual(a: Category[], b: Category[]) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
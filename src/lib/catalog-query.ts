@@ -0,0 +1,61 @@
+import { parseFacets, writeFacets, type FacetSelection } from "@/lib/facets";
+import { isSortKey, type SortKey } from "@/lib/sort";
+
+// ---------- Catalog query string ----------
+// Search text, category chips, facets, sort order and the grid/list toggle
+// are kept in the URL (?q=silk&cat=a,b&fabric=Silk&fabric=Cotton
+// &price=1000-5000&view=list&sort=price-asc) so a filtered view can be
+// bookmarked or shared.
+
+export type ViewMode = "grid" | "list";
+
+export interface CatalogQuery {
+  q: string;
+  categories: string[];
+  view: ViewMode;
+  sort: SortKey;
+  facets: FacetSelection;
+}
+
+export function parseCatalogQuery(search: string): CatalogQuery {
+  const params = new URLSearchParams(search);
+  const categories = (params.get("cat") ?? "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return {
+    q: params.get("q") ?? "",
+    categories: Array.from(new Set(categories)),
+    view: params.get("view") === "list" ? "list" : "grid",
+    sort: isSortKey(params.get("sort"))
+      ? (params.get("sort") as SortKey)
+      : "featured",
+    facets: parseFacets(params),
+  };
+}
+
+/**
+ * Writes `query` into `search`, leaving unrelated parameters alone and
+ * omitting defaults so an unfiltered catalog keeps a clean URL.
+ */
+export function buildCatalogSearch(search: string, query: CatalogQuery) {
+  const params = new URLSearchParams(search);
+  const q = query.q.trim() ? query.q : "";
+
+  if (q) params.set("q", q);
+  else params.delete("q");
+  if (query.categories.length) params.set("cat", query.categories.join(","));
+  else params.delete("cat");
+  if (query.view !== "grid") params.set("view", query.view);
+  else params.delete("view");
+  if (query.sort !== "featured") params.set("sort", query.sort);
+  else params.delete("sort");
+  writeFacets(params, query.facets);
+
+  // Category ids are plain slugs, so their list separator can stay readable;
+  // commas inside facet values stay encoded.
+  const next = params
+    .toString()
+    .replace(/(^|&)cat=[^&]*/, (match) => match.replace(/%2C/g, ","));
+  return next ? `?${next}` : "";
+}
@@ -0,0 +1,344 @@
+import { SchemaError, type SchemaIssue } from "@/lib/api-errors";
+import type {
+  CatalogItem,
+  Category,
+  LocalizedNames,
+  Subfolder,
+} from "@/lib/catalog";
+
+// ---------- Runtime validation of /api/catalog ----------
+// The backend is a thin wrapper around Google Drive folders, so field names
+// vary (id/fileId, name/title/fileName, preview/all/files). Everything here
+// takes `unknown` and either produces a well-formed model or reports why not.
+
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** First non-empty string among `keys`. */
+function pickString(obj: JsonObject, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = obj[key];
+    if (typeof value === "string" && value.trim()) return value;
+    if (typeof value === "number") return String(value);
+  }
+  return undefined;
+}
+
+/** A number, or a numeric string such as "₹12,999" or "12999.00". */
+function pickNumber(obj: JsonObject, ...keys: string[]): number | undefined {
+  for (const key of keys) {
+    const value = obj[key];
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+    if (typeof value === "string") {
+      // "Rs. 12,999" / "₹1,23,456.50": drop grouping commas, then take the
+      // first number so a currency prefix's dot isn't read as a decimal.
+      const match = value.replace(/,/g, "").match(/\d+(\.\d+)?/);
+      if (match) return Number(match[0]);
+    }
+  }
+  return undefined;
+}
+
+function driveImageUrl(id: string) {
+  return `https://drive.google.com/uc?id=${id}`;
+}
+
+/** Extra images may arrive as URLs, Drive file ids or `{ id | url }` objects. */
+function pickImages(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const images = value
+    .map((entry) => {
+      if (typeof entry === "string") {
+        return /^(https?:|data:|\/)/.test(entry) ? entry : driveImageUrl(entry);
+      }
+      if (isObject(entry)) {
+        const url = pickString(entry, "url", "image", "src");
+        const id = pickString(entry, "id", "fileId");
+        return url ?? (id ? driveImageUrl(id) : undefined);
+      }
+      return undefined;
+    })
+    .filter((src): src is string => Boolean(src));
+  return images.length ? images : undefined;
+}
+
+/** A list given as an array or a comma-separated string ("Wedding, Party"). */
+function pickList(obj: JsonObject, ...keys: string[]): string[] | undefined {
+  for (const key of keys) {
+    const value = obj[key];
+    const parts = Array.isArray(value)
+      ? value.filter((part): part is string => typeof part === "string")
+      : typeof value === "string"
+        ? value.split(",")
+        : [];
+    const list = Array.from(
+      new Set(parts.map((part) => part.trim()).filter(Boolean))
+    );
+    if (list.length) return list;
+  }
+  return undefined;
+}
+
+// Booleans stay booleans: the label is the UI's job, in the UI's language.
+function pickBlousePiece(obj: JsonObject): boolean | string | undefined {
+  const value = obj.blousePiece ?? obj.blouse_piece ?? obj.blouse;
+  if (typeof value === "boolean") return value;
+  return pickString(obj, "blousePiece", "blouse_piece", "blouse");
+}
+
+/**
+ * Translated names, sent either as an object (`names` / `localizedNames`,
+ * keyed by language code) or as flat `name_hi`-style fields.
+ */
+function pickNames(obj: JsonObject): LocalizedNames | undefined {
+  const names: LocalizedNames = {};
+  const nested = obj.names ?? obj.localizedNames;
+  if (isObject(nested)) {
+    for (const [language, value] of Object.entries(nested)) {
+      if (typeof value === "string" && value.trim()) {
+        names[language.toLowerCase()] = value.trim();
+      }
+    }
+  }
+  for (const [key, value] of Object.entries(obj)) {
+    const match = /^name_([a-z]{2})$/i.exec(key);
+    if (match && typeof value === "string" && value.trim()) {
+      names[match[1].toLowerCase()] ??= value.trim();
+    }
+  }
+  return Object.keys(names).length ? names : undefined;
+}
+
+// ---- Files ----
+export function normalizeFileObj(f: unknown): CatalogItem | null {
+  if (!isObject(f)) return null;
+  const id = pickString(f, "id", "fileId", "name");
+  if (!id) return null;
+  const fileName = pickString(f, "fileName");
+  const name =
+    pickString(f, "name", "title") ||
+    fileName?.split(".").slice(0, -1).join(".") ||
+    id;
+  const image = pickString(f, "image") ?? driveImageUrl(id);
+
+  // Product metadata may sit on the file itself or, for Drive-backed
+  // catalogs, in its custom `properties` / `appProperties`.
+  const meta: JsonObject = {
+    ...(isObject(f.appProperties) ? f.appProperties : {}),
+    ...(isObject(f.properties) ? f.properties : {}),
+    ...(isObject(f.metadata) ? f.metadata : {}),
+    ...f,
+  };
+  const item: CatalogItem = { id, name, image };
+  const price = pickNumber(meta, "price", "sellingPrice");
+  if (price !== undefined && price > 0) item.price = price;
+  const mrp = pickNumber(meta, "mrp", "originalPrice", "compareAtPrice");
+  if (mrp !== undefined && item.price !== undefined && mrp > item.price) {
+    item.mrp = mrp;
+  }
+  const createdAt = pickString(
+    meta,
+    "createdAt",
+    "createdTime",
+    "modifiedTime"
+  );
+  if (createdAt && !Number.isNaN(Date.parse(createdAt))) {
+    item.createdAt = new Date(createdAt).toISOString();
+  }
+  const fabric = pickString(meta, "fabric", "material");
+  if (fabric) item.fabric = fabric;
+  const colour = pickString(meta, "colour", "color");
+  if (colour) item.colour = colour;
+  const occasion = pickList(meta, "occasion", "occasions");
+  if (occasion) item.occasion = occasion;
+  const length = pickString(meta, "length");
+  if (length) item.length = length;
+  const blousePiece = pickBlousePiece(meta);
+  if (blousePiece !== undefined) item.blousePiece = blousePiece;
+  const care = pickString(
+    meta,
+    "care",
+    "careInstructions",
+    "care_instructions"
+  );
+  if (care) item.care = care;
+  const stock = pickNumber(meta, "stock", "quantity", "inventory");
+  if (stock !== undefined) item.stock = Math.max(0, Math.floor(stock));
+  const images = pickImages(meta.images);
+  if (images) item.images = images;
+  const dominantColor = pickString(
+    meta,
+    "dominantColor",
+    "dominantColour",
+    "placeholderColor"
+  );
+  if (dominantColor && /^#?[0-9a-f]{3,8}$/i.test(dominantColor)) {
+    item.dominantColor = dominantColor.startsWith("#")
+      ? dominantColor
+      : `#${dominantColor}`;
+  }
+  return item;
+}
+
+export function normalizeFilesArray(arr: unknown): CatalogItem[] {
+  if (!Array.isArray(arr)) return [];
+  return arr
+    .map(normalizeFileObj)
+    .filter((f): f is CatalogItem => f !== null)
+    .filter((v, i, a) => a.findIndex((x) => x.id === v.id) === i);
+}
+
+// ---- Paging ----
+// Backends that page large folders say so with either an opaque cursor
+// (`nextCursor` / `next`) or offset hints (`hasMore`, `total`); without
+// either, `all` is taken to be the whole folder.
+
+/** Where the page after `offset + loaded` items starts, if there is one. */
+function nextPageCursor(
+  obj: JsonObject,
+  loaded: number,
+  offset: number
+): string | undefined {
+  const cursor = obj.nextCursor ?? obj.next_cursor ?? obj.next;
+  if (typeof cursor === "string" && cursor.trim()) return cursor;
+  if (typeof cursor === "number") return String(cursor);
+  if (cursor === null) return undefined;
+  const total = pickNumber(obj, "total", "totalCount");
+  if (
+    obj.hasMore === true ||
+    (total !== undefined && total > offset + loaded)
+  ) {
+    return String(offset + loaded);
+  }
+  return undefined;
+}
+
+/**
+ * Parses one page of a subfolder: `{ items | files, nextCursor | hasMore }`
+ * or a bare array, which is taken to be the rest of the folder.
+ */
+export function parseSubfolderPage(
+  data: unknown,
+  url: string,
+  cursor: string
+): { items: CatalogItem[]; nextCursor?: string } {
+  if (Array.isArray(data)) return { items: normalizeFilesArray(data) };
+  if (!isObject(data)) {
+    throw new SchemaError(url, [{ path: "$", message: "is not an object" }]);
+  }
+  const rawItems = data.items ?? data.files ?? data.all;
+  if (!Array.isArray(rawItems)) {
+    throw new SchemaError(url, [
+      { path: "$.items", message: "is not an array" },
+    ]);
+  }
+  const offset = /^\d+$/.test(cursor) ? Number(cursor) : 0;
+  return {
+    items: normalizeFilesArray(rawItems),
+    nextCursor: nextPageCursor(data, rawItems.length, offset),
+  };
+}
+
+// ---- Subfolders & categories ----
+function parseSubfolder(
+  raw: unknown,
+  path: string,
+  issues: SchemaIssue[]
+): Subfolder | null {
+  if (!isObject(raw)) {
+    issues.push({ path, message: "is not an object" });
+    return null;
+  }
+  const id = pickString(raw, "id");
+  const name = pickString(raw, "name") ?? id;
+  if (!id || !name) {
+    issues.push({ path: `${path}.id`, message: "is missing" });
+    return null;
+  }
+
+  const rawFiles = raw.all ?? raw.files;
+  const rawPreview = raw.preview ?? raw.files;
+  const all = normalizeFilesArray(rawFiles);
+  const preview = normalizeFilesArray(rawPreview).slice(0, 5);
+  if (Array.isArray(rawFiles) && all.length < rawFiles.length) {
+    issues.push({
+      path: `${path}.all`,
+      message: `has ${rawFiles.length - all.length} file(s) without an id or duplicated`,
+    });
+  }
+
+  const subfolder: Subfolder = {
+    id,
+    name,
+    preview,
+    all: all.length ? all : preview,
+  };
+  const total = pickNumber(raw, "total", "totalCount");
+  if (total !== undefined && total > subfolder.all.length) {
+    subfolder.total = total;
+  }
+  const names = pickNames(raw);
+  if (names) subfolder.names = names;
+  const nextCursor = nextPageCursor(raw, subfolder.all.length, 0);
+  if (nextCursor) subfolder.nextCursor = nextCursor;
+  return subfolder;
+}
+
+function parseCategory(
+  raw: unknown,
+  path: string,
+  issues: SchemaIssue[]
+): Category | null {
+  if (!isObject(raw)) {
+    issues.push({ path, message: "is not an object" });
+    return null;
+  }
+  const id = pickString(raw, "id");
+  const name = pickString(raw, "name") ?? id;
+  if (!id || !name) {
+    issues.push({ path: `${path}.id`, message: "is missing" });
+    return null;
+  }
+
+  const rawSubfolders = raw.subfolders ?? [];
+  if (!Array.isArray(rawSubfolders)) {
+    issues.push({ path: `${path}.subfolders`, message: "is not an array" });
+  }
+  const subfolders = (Array.isArray(rawSubfolders) ? rawSubfolders : [])
+    .map((sub, i) => parseSubfolder(sub, `${path}.subfolders[${i}]`, issues))
+    .filter((sub): sub is Subfolder => sub !== null);
+
+  const category: Category = { id, name, subfolders };
+  const names = pickNames(raw);
+  if (names) category.names = names;
+  return category;
+}
+
+/**
+ * Validates and normalizes a catalog payload. Malformed categories and
+ * subfolders are skipped and listed in `issues`; a payload that isn't an
+ * array, or in which nothing at all is usable, throws a SchemaError.
+ */
+export function parseCatalog(
+  data: unknown,
+  url: string
+): { catalog: Category[]; issues: SchemaIssue[] } {
+  if (!Array.isArray(data)) {
+    throw new SchemaError(url, [
+      { path: "$", message: "is not an array of categories" },
+    ]);
+  }
+
+  const issues: SchemaIssue[] = [];
+  const catalog = data
+    .map((cat, i) => parseCategory(cat, `$[${i}]`, issues))
+    .filter((cat): cat is Category => cat !== null);
+
+  if (data.length > 0 && catalog.length === 0) {
+    throw new SchemaError(url, issues);
+  }
+  return { catalog, issues };
+}
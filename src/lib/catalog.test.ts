@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  appendSubfolderPage,
+  mergeLoadedPages,
+  type Category,
+} from "@/lib/catalog";
+import { COTTON_SAREE, SILK_SAREE } from "@/test/fixtures";
+
+const pieces = (from: number, to: number) =>
+  Array.from({ length: to - from }, (_, i) => ({
+    ...SILK_SAREE,
+    id: `piece-${from + i}`,
+  }));
+
+/** A catalog whose one paged subfolder embeds pieces 0–2. */
+function firstPage(): Category[] {
+  return [
+    {
+      id: "silk",
+      name: "Silk",
+      subfolders: [
+        {
+          id: "kanjivaram",
+          name: "Kanjivaram",
+          preview: pieces(0, 3),
+          all: pieces(0, 3),
+          total: 9,
+          nextCursor: "3",
+        },
+        {
+          id: "chanderi",
+          name: "Chanderi",
+          preview: [COTTON_SAREE],
+          all: [COTTON_SAREE],
+        },
+      ],
+    },
+  ];
+}
+
+const ids = (catalog: Category[]) =>
+  catalog[0].subfolders[0].all.map((item) => item.id);
+
+describe("mergeLoadedPages", () => {
+  it("keeps pages loaded since the first fetch", () => {
+    const current = appendSubfolderPage(
+      firstPage(),
+      "silk",
+      "kanjivaram",
+      "3",
+      {
+        items: pieces(3, 6),
+        nextCursor: "6",
+      }
+    );
+    const merged = mergeLoadedPages(firstPage(), current);
+    expect(ids(merged)).toEqual(ids(current));
+    expect(merged[0].subfolders[0].nextCursor).toBe("6");
+  });
+
+  it("takes fresh pieces and metadata from the new catalog", () => {
+    const current = appendSubfolderPage(
+      firstPage(),
+      "silk",
+      "kanjivaram",
+      "3",
+      {
+        items: pieces(3, 6),
+        nextCursor: "6",
+      }
+    );
+    const fresh = firstPage();
+    fresh[0].subfolders[0].all = [...pieces(10, 11), ...pieces(0, 2)];
+    fresh[0].subfolders[0].total = 10;
+    const merged = mergeLoadedPages(fresh, current);
+    expect(ids(merged)).toEqual([
+      "piece-10",
+      "piece-0",
+      "piece-1",
+      "piece-2",
+      "piece-3",
+      "piece-4",
+      "piece-5",
+    ]);
+    expect(merged[0].subfolders[0].total).toBe(10);
+  });
+
+  it("ends paging when everything had already been loaded", () => {
+    const current = appendSubfolderPage(
+      firstPage(),
+      "silk",
+      "kanjivaram",
+      "3",
+      {
+        items: pieces(3, 9),
+      }
+    );
+    const merged = mergeLoadedPages(firstPage(), current);
+    expect(ids(merged)).toHaveLength(9);
+    expect(merged[0].subfolders[0].nextCursor).toBeUndefined();
+  });
+
+  it("uses the fresh subfolder once it no longer pages", () => {
+    const current = appendSubfolderPage(
+      firstPage(),
+      "silk",
+      "kanjivaram",
+      "3",
+      {
+        items: pieces(3, 6),
+        nextCursor: "6",
+      }
+    );
+    const fresh = firstPage();
+    fresh[0].subfolders[0].all = pieces(0, 4);
+    delete fresh[0].subfolders[0].nextCursor;
+    expect(ids(mergeLoadedPages(fresh, current))).toEqual(ids(fresh));
+  });
+});
@@ -0,0 +1,228 @@
+import type { Translate } from "@/lib/i18n";
+
+// ---------- Types ----------
+export interface CatalogItem {
+  id: string;
+  name: string;
+  /** Primary image; also used for the grid card. */
+  image: string | null;
+  // Optional product metadata – older backends only send id/name/image, so
+  // every consumer must cope with these being absent.
+  /** Selling price in INR. */
+  price?: number;
+  /** Maximum retail price in INR; only set when higher than `price`. */
+  mrp?: number;
+  /** ISO timestamp the piece was added, used for "newest" sorting. */
+  createdAt?: string;
+  fabric?: string;
+  colour?: string;
+  /** Occasions the piece suits, e.g. ["Wedding", "Festive"]. */
+  occasion?: string[];
+  /** As sent: metres ("5.5") or free text ("5.5 m with fall"). */
+  length?: string;
+  /** Yes/no, or the backend's own text, e.g. "Included (0.8 m)". */
+  blousePiece?: boolean | string;
+  care?: string;
+  /** Units in stock; 0 means sold out. */
+  stock?: number;
+  /** Additional images beyond `image`. */
+  images?: string[];
+  /** CSS colour shown while the image loads, e.g. "#8b1e3f". */
+  dominantColor?: string;
+}
+
+export type LocalizedNames = Partial<Record<string, string>>;
+
+export interface Subfolder {
+  id: string;
+  name: string;
+  /** Translations of `name` keyed by language code, e.g. { hi: "…" }. */
+  names?: LocalizedNames;
+  preview: CatalogItem[];
+  /** Every piece loaded so far; the whole folder unless `nextCursor` is set. */
+  all: CatalogItem[];
+  /** Pieces in the folder on the server, when it pages them. */
+  total?: number;
+  /** Where the next page of `all` starts; absent once everything is loaded. */
+  nextCursor?: string;
+}
+
+export interface Category {
+  id: string;
+  name: string;
+  /** Translations of `name` keyed by language code, e.g. { hi: "…" }. */
+  names?: LocalizedNames;
+  subfolders: Subfolder[];
+}
+
+/** An item together with the category/subfolder it was listed under. */
+export interface CatalogEntry {
+  item: CatalogItem;
+  category: Category;
+  subfolder: Subfolder;
+}
+
+// ---- Lookup ----
+/** Subfolder ids are only unique within their category. */
+export function subfolderKey(categoryId: string, subfolderId: string) {
+  return `${categoryId}/${subfolderId}`;
+}
+
+export function indexCatalogItems(catalog: Category[]) {
+  const index = new Map<string, CatalogEntry>();
+  for (const category of catalog) {
+    for (const subfolder of category.subfolders) {
+      for (const item of subfolder.all) {
+        // First listing wins when the same Drive file appears in two folders.
+        if (!index.has(item.id)) {
+          index.set(item.id, { item, category, subfolder });
+        }
+      }
+    }
+  }
+  return index;
+}
+
+// ---- Paging ----
+/** Whether every subfolder has all of its pieces loaded. */
+export function isCatalogComplete(catalog: Category[]) {
+  return catalog.every((category) =>
+    category.subfolders.every((sub) => !sub.nextCursor)
+  );
+}
+
+/**
+ * Appends a fetched page to a subfolder. The page is ignored if the
+ * subfolder has moved on since it was requested (another page landed first,
+ * or the catalog was reloaded), so late responses can't duplicate pieces.
+ */
+export function appendSubfolderPage(
+  catalog: Category[],
+  categoryId: string,
+  subfolderId: string,
+  cursor: string,
+  page: { items: CatalogItem[]; nextCursor?: string }
+): Category[] {
+  let changed = false;
+  const next = catalog.map((category) => {
+    if (category.id !== categoryId) return category;
+    return {
+      ...category,
+      subfolders: category.subfolders.map((sub) => {
+        if (sub.id !== subfolderId || sub.nextCursor !== cursor) return sub;
+        changed = true;
+        const known = new Set(sub.all.map((item) => item.id));
+        const updated: Subfolder = {
+          ...sub,
+          all: [
+            ...sub.all,
+            ...page.items.filter((item) => !known.has(item.id)),
+          ],
+        };
+        // An empty page ends paging even if the server offers another cursor.
+        if (page.nextCursor && page.items.length > 0) {
+          updated.nextCursor = page.nextCursor;
+        } else {
+          delete updated.nextCursor;
+        }
+        return updated;
+      }),
+    };
+  });
+  return changed ? next : catalog;
+}
+
+/**
+ * Carries the pages already loaded into `current` over to a freshly fetched
+ * catalog, which only embeds the first page of each paged subfolder, so a
+ * background refresh doesn't throw away what the user has scrolled through.
+ * Subfolders that no longer page are taken from `fresh` as they are.
+ */
+export function mergeLoadedPages(
+  fresh: Category[],
+  current: Category[]
+): Category[] {
+  const loaded = new Map<string, Subfolder>();
+  for (const category of current) {
+    for (const sub of category.subfolders) {
+      loaded.set(subfolderKey(category.id, sub.id), sub);
+    }
+  }
+  return fresh.map((category) => ({
+    ...category,
+    subfolders: category.subfolders.map((sub) => {
+      const previous = loaded.get(subfolderKey(category.id, sub.id));
+      if (
+        !sub.nextCursor ||
+        !previous ||
+        previous.all.length <= sub.all.length
+      ) {
+        return sub;
+      }
+      const known = new Set(sub.all.map((item) => item.id));
+      const merged: Subfolder = {
+        ...sub,
+        all: [
+          ...sub.all,
+          ...previous.all.filter((item) => !known.has(item.id)),
+        ],
+      };
+      if (previous.nextCursor) merged.nextCursor = previous.nextCursor;
+      else delete merged.nextCursor;
+      return merged;
+    }),
+  }));
+}
+
+// ---- Item details ----
+/** Every distinct image of an item, primary first. */
+export function itemImages(item: CatalogItem): string[] {
+  const all = [item.image, ...(item.images ?? [])].filter(
+    (src): src is string => Boolean(src)
+  );
+  return Array.from(new Set(all));
+}
+
+/** Label/value pairs for the metadata fields the item actually has. */
+export function itemAttributes(item: CatalogItem, t: Translate) {
+  const attributes: { label: string; value: string }[] = [];
+  if (item.fabric) {
+    attributes.push({ label: t("attribute.fabric"), value: item.fabric });
+  }
+  if (item.colour) {
+    attributes.push({ label: t("attribute.colour"), value: item.colour });
+  }
+  if (item.occasion) {
+    attributes.push({
+      label: t("attribute.occasion"),
+      value: item.occasion.join(", "),
+    });
+  }
+  if (item.length) {
+    attributes.push({
+      label: t("attribute.length"),
+      value: /^\d+(\.\d+)?$/.test(item.length)
+        ? t("attribute.metres", { length: Number(item.length) })
+        : item.length,
+    });
+  }
+  if (item.blousePiece !== undefined) {
+    attributes.push({
+      label: t("attribute.blousePiece"),
+      value:
+        typeof item.blousePiece === "string"
+          ? item.blousePiece
+          : t(
+              item.blousePiece ? "attribute.included" : "attribute.notIncluded"
+            ),
+    });
+  }
+  return attributes;
+}
+
+export function stockLabel(stock: number | undefined, t: Translate) {
+  if (stock === undefined) return null;
+  if (stock <= 0) return t("stock.soldOut");
+  if (stock <= 3) return t("stock.low", { count: stock });
+  return t("stock.inStock");
+}
@@ -0,0 +1,199 @@
+// ---------- Enquiry checkout ----------
+// There is no payment step: checkout turns the cart into an order request
+// that is either sent to the shop on WhatsApp or POSTed to the backend, and
+// a copy is kept in localStorage so the customer can quote its reference.
+import { cartSubtotal, type CartLine } from "@/lib/cart";
+import type { I18n, Locale, MessageKey } from "@/lib/i18n";
+import { itemShareUrl, shareImageUrl, whatsAppUrl } from "@/lib/share";
+import { readStorage, writeStorage } from "@/lib/storage";
+
+// ---- Types ----
+export interface EnquiryContact {
+  name: string;
+  phone: string;
+  notes: string;
+}
+
+export type EnquiryChannel = "whatsapp" | "api";
+
+export interface Enquiry {
+  reference: string;
+  /** ISO timestamp. */
+  createdAt: string;
+  channel: EnquiryChannel;
+  contact: EnquiryContact;
+  lines: CartLine[];
+}
+
+interface StoredEnquiriesV1 {
+  version: 1;
+  enquiries: Enquiry[];
+}
+
+export const ENQUIRIES_STORAGE_KEY = "saree-studio:enquiries";
+export const MAX_SAVED_ENQUIRIES = 10;
+export const MAX_NAME_LENGTH = 80;
+export const MAX_NOTES_LENGTH = 500;
+
+// Digits only, with country code, e.g. VITE_WHATSAPP_NUMBER=919876543210.
+const WHATSAPP_NUMBER = (import.meta.env.VITE_WHATSAPP_NUMBER ?? "").replace(
+  /\D/g,
+  ""
+);
+
+export const EMPTY_CONTACT: EnquiryContact = { name: "", phone: "", notes: "" };
+
+// ---- Validation ----
+/**
+ * Normalises a phone number to `+<country code><number>`, or null when it
+ * can't be one. Bare 10-digit Indian mobiles (and their 0-prefixed trunk
+ * form) get +91; anything else needs its country code.
+ */
+export function normalizePhone(input: string): string | null {
+  const trimmed = input.trim();
+  if (!/^\+?[\d\s().-]+$/.test(trimmed)) return null;
+  let digits = trimmed.replace(/\D/g, "");
+  if (!trimmed.startsWith("+")) {
+    if (/^0?[6-9]\d{9}$/.test(digits)) digits = `91${digits.slice(-10)}`;
+    else if (digits.startsWith("00")) digits = digits.slice(2);
+  }
+  return /^[1-9]\d{9,14}$/.test(digits) ? `+${digits}` : null;
+}
+
+export type EnquiryErrors = Partial<Record<keyof EnquiryContact, MessageKey>>;
+
+/** Field errors as message keys; an empty object means the form is valid. */
+export function validateEnquiryContact(contact: EnquiryContact): EnquiryErrors {
+  const errors: EnquiryErrors = {};
+  if (!contact.name.trim()) errors.name = "checkout.error.name";
+  if (!contact.phone.trim()) {
+    errors.phone = "checkout.error.phoneMissing";
+  } else if (!normalizePhone(contact.phone)) {
+    errors.phone = "checkout.error.phone";
+  }
+  return errors;
+}
+
+// ---- Enquiries ----
+function createReference(date: Date) {
+  return `SS-${date.getTime().toString(36).toUpperCase()}`;
+}
+
+/** Snapshots the cart and a cleaned-up copy of `contact`, which must be valid. */
+export function createEnquiry(
+  lines: CartLine[],
+  contact: EnquiryContact,
+  channel: EnquiryChannel,
+  now = new Date()
+): Enquiry {
+  return {
+    reference: createReference(now),
+    createdAt: now.toISOString(),
+    channel,
+    contact: {
+      name: contact.name.trim().slice(0, MAX_NAME_LENGTH),
+      phone: normalizePhone(contact.phone) ?? contact.phone.trim(),
+      notes: contact.notes.trim().slice(0, MAX_NOTES_LENGTH),
+    },
+    lines,
+  };
+}
+
+/** The order request as plain text: every piece with its id and links. */
+export function enquiryMessage(
+  { reference, contact, lines }: Enquiry,
+  { t, formatPrice }: Pick<I18n, "t" | "formatPrice">
+) {
+  const { subtotal } = cartSubtotal(lines);
+  const items = lines.map((line, index) => {
+    const imageUrl = shareImageUrl(line.image);
+    return [
+      t("enquiry.message.item", {
+        number: index + 1,
+        name: line.name,
+        id: line.itemId,
+        quantity: line.quantity,
+      }),
+      line.price !== undefined &&
+        t("enquiry.message.price", { price: formatPrice(line.price) }),
+      t("enquiry.message.link", { url: itemShareUrl(line.itemId) }),
+      imageUrl && t("share.photo", { url: imageUrl }),
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+  const details = [
+    t("enquiry.message.name", { name: contact.name }),
+    t("enquiry.message.phone", { phone: contact.phone }),
+    contact.notes && t("enquiry.message.notes", { notes: contact.notes }),
+    t("enquiry.message.reference", { reference }),
+  ];
+  return [
+    t("enquiry.message.greeting"),
+    ...items,
+    subtotal > 0 &&
+      t("enquiry.message.subtotal", { subtotal: formatPrice(subtotal) }),
+    details.filter(Boolean).join("\n"),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export function whatsAppEnquiryUrl(
+  enquiry: Enquiry,
+  i18n: Pick<I18n, "t" | "formatPrice">
+) {
+  return whatsAppUrl(enquiryMessage(enquiry, i18n), WHATSAPP_NUMBER);
+}
+
+/** The JSON body POSTed to the enquiries endpoint. */
+export function enquiryPayload(enquiry: Enquiry, locale: Locale) {
+  const { subtotal, hasUnpriced } = cartSubtotal(enquiry.lines);
+  return {
+    reference: enquiry.reference,
+    createdAt: enquiry.createdAt,
+    locale,
+    customer: enquiry.contact,
+    items: enquiry.lines.map((line) => ({
+      id: line.itemId,
+      name: line.name,
+      quantity: line.quantity,
+      price: line.price ?? null,
+      categoryId: line.categoryId,
+      subfolderId: line.subfolderId,
+      url: itemShareUrl(line.itemId),
+      image: shareImageUrl(line.image),
+    })),
+    subtotal,
+    hasUnpriced,
+  };
+}
+
+// ---- Persistence ----
+export function loadEnquiries(): Enquiry[] {
+  const stored = readStorage<StoredEnquiriesV1>(ENQUIRIES_STORAGE_KEY);
+  if (stored?.version !== 1 || !Array.isArray(stored.enquiries)) return [];
+  return stored.enquiries
+    .filter(
+      (enquiry) =>
+        typeof enquiry?.reference === "string" &&
+        typeof enquiry.createdAt === "string" &&
+        typeof enquiry.contact?.name === "string" &&
+        typeof enquiry.contact.phone === "string" &&
+        Array.isArray(enquiry.lines)
+    )
+    .slice(0, MAX_SAVED_ENQUIRIES);
+}
+
+export function saveEnquiries(enquiries: Enquiry[]) {
+  const stored: StoredEnquiriesV1 = { version: 1, enquiries };
+  writeStorage(ENQUIRIES_STORAGE_KEY, stored);
+}
+
+/** Newest first, keeping the last MAX_SAVED_ENQUIRIES. */
+export function addEnquiry(enquiries: Enquiry[], enquiry: Enquiry): Enquiry[] {
+  return [
+    enquiry,
+    ...enquiries.filter((e) => e.reference !== enquiry.reference),
+  ].slice(0, MAX_SAVED_ENQUIRIES);
+}
@@ -0,0 +1,231 @@
+import type { CatalogItem } from "@/lib/catalog";
+import type { I18n, MessageKey } from "@/lib/i18n";
+
+// ---------- Faceted filtering ----------
+// Values within one facet are OR-ed (Silk or Cotton), facets are AND-ed
+// with each other (Silk and Red and Wedding) and with the price range.
+
+export type FacetKey = "fabric" | "colour" | "occasion";
+
+export const FACETS: { key: FacetKey; labelKey: MessageKey }[] = [
+  { key: "fabric", labelKey: "facet.fabric" },
+  { key: "colour", labelKey: "facet.colour" },
+  { key: "occasion", labelKey: "facet.occasion" },
+];
+
+export interface FacetSelection {
+  fabric: string[];
+  colour: string[];
+  occasion: string[];
+  priceMin?: number;
+  priceMax?: number;
+}
+
+export const EMPTY_FACETS: FacetSelection = {
+  fabric: [],
+  colour: [],
+  occasion: [],
+};
+
+export interface FacetValue {
+  value: string;
+  count: number;
+  selected: boolean;
+}
+
+export type FacetCounts = Record<FacetKey, FacetValue[]>;
+
+function foldValue(value: string) {
+  return value.trim().toLowerCase();
+}
+
+/** The values an item contributes to a facet ("Red / Gold" is two colours). */
+export function itemFacetValues(item: CatalogItem, key: FacetKey): string[] {
+  switch (key) {
+    case "fabric":
+      return item.fabric ? [item.fabric.trim()] : [];
+    case "colour":
+      return item.colour
+        ? item.colour
+            .split(/[,/&]/)
+            .map((part) => part.trim())
+            .filter(Boolean)
+        : [];
+    case "occasion":
+      return item.occasion ?? [];
+  }
+}
+
+export function hasPriceFilter(selection: FacetSelection) {
+  return selection.priceMin !== undefined || selection.priceMax !== undefined;
+}
+
+export function hasActiveFacets(selection: FacetSelection) {
+  return (
+    FACETS.some(({ key }) => selection[key].length > 0) ||
+    hasPriceFilter(selection)
+  );
+}
+
+// ---- Matching ----
+function matchesFacet(
+  item: CatalogItem,
+  key: FacetKey,
+  selected: string[]
+): boolean {
+  if (selected.length === 0) return true;
+  const wanted = new Set(selected.map(foldValue));
+  return itemFacetValues(item, key).some((value) =>
+    wanted.has(foldValue(value))
+  );
+}
+
+function matchesPrice(item: CatalogItem, selection: FacetSelection) {
+  if (!hasPriceFilter(selection)) return true;
+  if (item.price === undefined) return false;
+  return (
+    item.price >= (selection.priceMin ?? -Infinity) &&
+    item.price <= (selection.priceMax ?? Infinity)
+  );
+}
+
+/**
+ * Whether `item` passes every active facet. `ignore` skips one facet, which
+ * is how per-value counts stay useful after a value in that facet is picked.
+ */
+export function matchesFacets(
+  item: CatalogItem,
+  selection: FacetSelection,
+  ignore?: FacetKey
+): boolean {
+  return (
+    FACETS.every(
+      ({ key }) => key === ignore || matchesFacet(item, key, selection[key])
+    ) && matchesPrice(item, selection)
+  );
+}
+
+// ---- Counts ----
+export function computeFacetCounts(
+  items: CatalogItem[],
+  selection: FacetSelection
+): FacetCounts {
+  const counts = {} as FacetCounts;
+
+  for (const { key } of FACETS) {
+    const selected = new Set(selection[key].map(foldValue));
+    const byValue = new Map<string, FacetValue>();
+
+    for (const item of items) {
+      if (!matchesFacets(item, selection, key)) continue;
+      // Count each item once per value even if it lists a value twice.
+      const seen = new Set<string>();
+      for (const value of itemFacetValues(item, key)) {
+        const folded = foldValue(value);
+        if (seen.has(folded)) continue;
+        seen.add(folded);
+        const entry = byValue.get(folded) ?? {
+          value,
+          count: 0,
+          selected: selected.has(folded),
+        };
+        entry.count++;
+        byValue.set(folded, entry);
+      }
+    }
+
+    // Keep selected values visible even when nothing else matches them.
+    for (const value of selection[key]) {
+      const folded = foldValue(value);
+      if (!byValue.has(folded)) {
+        byValue.set(folded, { value, count: 0, selected: true });
+      }
+    }
+
+    counts[key] = Array.from(byValue.values()).sort(
+      (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+    );
+  }
+
+  return counts;
+}
+
+/** Lowest and highest price among `items`, or null if none are priced. */
+export function priceBounds(items: CatalogItem[]) {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const item of items) {
+    if (item.price === undefined) continue;
+    min = Math.min(min, item.price);
+    max = Math.max(max, item.price);
+  }
+  return Number.isFinite(min) ? { min, max } : null;
+}
+
+/** "₹1,000 – ₹5,000", "Under ₹5,000" or "₹1,000 and above". */
+export function describePriceRange(
+  min: number | undefined,
+  max: number | undefined,
+  { t, formatPrice }: Pick<I18n, "t" | "formatPrice">
+) {
+  if (min !== undefined && max !== undefined) {
+    return t("price.range", { min: formatPrice(min), max: formatPrice(max) });
+  }
+  if (max !== undefined) return t("price.under", { max: formatPrice(max) });
+  if (min !== undefined) return t("price.above", { min: formatPrice(min) });
+  return t("price.any");
+}
+
+// ---- URL encoding ----
+const FACET_PARAMS: Record<FacetKey, string> = {
+  fabric: "fabric",
+  colour: "colour",
+  occasion: "occasion",
+};
+
+// One parameter per value (?fabric=Silk&fabric=Cotton): values such as
+// "Silk, Cotton" contain commas, so they can't share a joined list.
+function readList(params: URLSearchParams, name: string) {
+  const values = params
+    .getAll(name)
+    .map((value) => value.trim())
+    .filter(Boolean);
+  return Array.from(new Set(values));
+}
+
+export function parseFacets(params: URLSearchParams): FacetSelection {
+  const selection: FacetSelection = {
+    fabric: readList(params, FACET_PARAMS.fabric),
+    colour: readList(params, FACET_PARAMS.colour),
+    occasion: readList(params, FACET_PARAMS.occasion),
+  };
+  // price=1000-5000, price=1000- or price=-5000; decimals are accepted too.
+  const match = /^(\d+(?:\.\d+)?)?-(\d+(?:\.\d+)?)?$/.exec(
+    params.get("price") ?? ""
+  );
+  if (match) {
+    if (match[1]) selection.priceMin = Number(match[1]);
+    if (match[2]) selection.priceMax = Number(match[2]);
+  }
+  return selection;
+}
+
+export function writeFacets(
+  params: URLSearchParams,
+  selection: FacetSelection
+) {
+  for (const { key } of FACETS) {
+    params.delete(FACET_PARAMS[key]);
+    for (const value of selection[key]) params.append(FACET_PARAMS[key], value);
+  }
+  if (hasPriceFilter(selection)) {
+    // Whole rupees, rounded outwards so the range never drops a bound item.
+    const min =
+      selection.priceMin !== undefined ? Math.floor(selection.priceMin) : "";
+    const max =
+      selection.priceMax !== undefined ? Math.ceil(selection.priceMax) : "";
+    params.set("price", `${min}-${max}`);
+  } else {
+    params.delete("price");
+  }
+}
@@ -0,0 +1,46 @@
+import { readStorage, writeStorage } from "@/lib/storage";
+
+// Bump the version whenever the stored shape changes; older payloads are
+// migrated in loadFavorites rather than silently dropped.
+interface StoredFavoritesV1 {
+  version: 1;
+  ids: string[];
+}
+
+export const FAVORITES_STORAGE_KEY = "saree-studio:favorites";
+
+// ---- Persistence ----
+export function loadFavorites(): Set<string> {
+  const stored = readStorage<StoredFavoritesV1 | string[]>(
+    FAVORITES_STORAGE_KEY
+  );
+  if (!stored) return new Set();
+  // Pre-versioned payloads were a bare array of ids.
+  if (Array.isArray(stored)) {
+    return new Set(stored.filter((id) => typeof id === "string"));
+  }
+  if (stored.version === 1 && Array.isArray(stored.ids)) {
+    return new Set(stored.ids.filter((id) => typeof id === "string"));
+  }
+  return new Set();
+}
+
+export function saveFavorites(favorites: Set<string>) {
+  // No timestamp: every tab re-saves what it loads, so the payload has to
+  // be identical for the same ids or two tabs keep echoing storage events.
+  const stored: StoredFavoritesV1 = { version: 1, ids: Array.from(favorites) };
+  writeStorage(FAVORITES_STORAGE_KEY, stored);
+}
+
+// ---- Reconciliation ----
+/**
+ * Drops favorites whose item no longer exists in the catalog. Returns the
+ * same Set instance when nothing was pruned so callers can skip a re-render.
+ */
+export function pruneFavorites(
+  favorites: Set<string>,
+  knownIds: { has(id: string): boolean }
+): Set<string> {
+  const kept = Array.from(favorites).filter((id) => knownIds.has(id));
+  return kept.length === favorites.size ? favorites : new Set(kept);
+}
@@ -0,0 +1,145 @@
+import { en } from "@/locales/en";
+import { hi } from "@/locales/hi";
+import { kn } from "@/locales/kn";
+import { ta } from "@/locales/ta";
+import type { Category } from "@/lib/catalog";
+import { formatPrice as formatPriceIn } from "@/lib/price";
+import { readStorage, writeStorage } from "@/lib/storage";
+
+// ---------- Types ----------
+export type Locale = "en" | "hi" | "kn" | "ta";
+
+/** Plural forms keyed by Intl.PluralRules category; `other` is required. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+export type Message = string | PluralMessage;
+export type MessageKey = keyof typeof en;
+/** Every catalog must translate every key, so they can't drift apart. */
+export type Messages = Record<MessageKey, Message>;
+export type MessageParams = Record<string, string | number>;
+
+export interface LocaleInfo {
+  code: Locale;
+  /** The language's own name, as shown in the switcher. */
+  label: string;
+  /** BCP 47 tag for Intl formatting. */
+  intl: string;
+}
+
+export const LOCALES: LocaleInfo[] = [
+  { code: "en", label: "English", intl: "en-IN" },
+  { code: "hi", label: "हिन्दी", intl: "hi-IN" },
+  { code: "kn", label: "ಕನ್ನಡ", intl: "kn-IN" },
+  { code: "ta", label: "தமிழ்", intl: "ta-IN" },
+];
+
+const CATALOGS: Record<Locale, Messages> = { en, hi, kn, ta };
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some((info) => info.code === value);
+}
+
+export function localeInfo(locale: Locale): LocaleInfo {
+  return LOCALES.find((info) => info.code === locale) ?? LOCALES[0];
+}
+
+// ---- Persistence ----
+interface StoredLocaleV1 {
+  version: 1;
+  locale: Locale;
+}
+
+export const LOCALE_STORAGE_KEY = "saree-studio:locale";
+
+/** The saved choice, else the first browser language we have, else English. */
+export function loadLocale(): Locale {
+  const stored = readStorage<StoredLocaleV1>(LOCALE_STORAGE_KEY);
+  if (stored?.version === 1 && isLocale(stored.locale)) return stored.locale;
+  for (const tag of navigator.languages ?? [navigator.language]) {
+    const language = tag.toLowerCase().split("-")[0];
+    if (isLocale(language)) return language;
+  }
+  return "en";
+}
+
+export function saveLocale(locale: Locale) {
+  const stored: StoredLocaleV1 = { version: 1, locale };
+  writeStorage(LOCALE_STORAGE_KEY, stored);
+}
+
+// ---- Translating ----
+export interface I18n {
+  locale: Locale;
+  /**
+   * Looks up `key` and fills `{name}` placeholders from `params`. Plural
+   * messages pick their form from `params.count`.
+   */
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatNumber: (value: number) => string;
+  formatPrice: (amount: number) => string;
+  /** Day and short month, e.g. "12 Mar". */
+  formatDate: (date: Date) => string;
+}
+
+export type Translate = I18n["t"];
+
+export function createI18n(locale: Locale): I18n {
+  const { intl } = localeInfo(locale);
+  const messages = CATALOGS[locale];
+  const plurals = new Intl.PluralRules(intl);
+  const numbers = new Intl.NumberFormat(intl);
+  const dates = new Intl.DateTimeFormat(intl, {
+    day: "numeric",
+    month: "short",
+  });
+
+  function formatNumber(value: number) {
+    return numbers.format(value);
+  }
+
+  function t(key: MessageKey, params: MessageParams = {}) {
+    const message = messages[key] ?? en[key];
+    const template =
+      typeof message === "string"
+        ? message
+        : (message[plurals.select(Number(params.count ?? 0))] ?? message.other);
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === "number" ? formatNumber(value) : value;
+    });
+  }
+
+  return {
+    locale,
+    t,
+    formatNumber,
+    formatPrice: (amount) => formatPriceIn(amount, intl),
+    formatDate: (date) => dates.format(date),
+  };
+}
+
+// ---- Backend names ----
+/** A category or subfolder name in `locale`, when the backend sent one. */
+export function localizedName(
+  entity: Pick<Category, "name" | "names">,
+  locale: Locale
+) {
+  return entity.names?.[locale] ?? entity.name;
+}
+
+/**
+ * The catalog with category and subfolder names swapped for their `locale`
+ * versions. Items keep their identity, so lookups by reference still work.
+ */
+export function localizeCatalog(catalog: Category[], locale: Locale) {
+  return catalog.map((category) => ({
+    ...category,
+    name: localizedName(category, locale),
+    subfolders: category.subfolders.map((sub) => ({
+      ...sub,
+      name: localizedName(sub, locale),
+    })),
+  }));
+}
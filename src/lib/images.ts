@@ -0,0 +1,86 @@
+import placeholderImage from "@/assets/saree-placeholder.svg";
+
+// ---------- Image URLs ----------
+// Catalog images are Google Drive files. Drive's thumbnail endpoint scales
+// on the server (`sz=w<width>`), so grid cards, detail views and the
+// lightbox can each ask for what they actually display instead of the
+// full-resolution original. Other URLs are used as-is.
+
+/** Bundled stand-in for pieces without an image or whose image failed. */
+export const PLACEHOLDER_IMAGE = placeholderImage;
+
+/** Widths offered in `srcset`, in CSS pixels × DPR. */
+export const IMAGE_WIDTHS = [240, 360, 480, 720, 960, 1440, 2048];
+
+/** Width of the tiny preview blurred in while the real image loads. */
+const PLACEHOLDER_WIDTH = 24;
+
+/** `sizes` for each place an image is shown, matching the layouts. */
+export const IMAGE_SIZES = {
+  // CatalogGrid: 1 / 2 / 3 / 4 columns inside max-w-7xl.
+  card: "(min-width: 1280px) 300px, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw",
+  detail: "(min-width: 672px) 600px, 100vw",
+  lightbox: "90vw",
+  thumbnail: "80px",
+};
+
+const DRIVE_ID_PATTERNS = [
+  // https://drive.google.com/uc?id=ID, /open?id=ID, /thumbnail?id=ID
+  /^https:\/\/drive\.google\.com\/(?:uc|open|thumbnail)\?(?:.*&)?id=([\w-]+)/,
+  // https://drive.google.com/file/d/ID/view
+  /^https:\/\/drive\.google\.com\/file\/d\/([\w-]+)/,
+  // https://lh3.googleusercontent.com/d/ID=w800
+  /^https:\/\/lh3\.googleusercontent\.com\/d\/([\w-]+)/,
+];
+
+export function driveFileId(src: string): string | null {
+  for (const pattern of DRIVE_ID_PATTERNS) {
+    const match = pattern.exec(src);
+    if (match) return match[1];
+  }
+  return null;
+}
+
+/** `src` scaled to `width` CSS pixels wide, where the host supports it. */
+export function imageVariant(src: string, width: number) {
+  const id = driveFileId(src);
+  return id ? `https://drive.google.com/thumbnail?id=${id}&sz=w${width}` : src;
+}
+
+/**
+ * The same Drive file through its other public URL form, for a second try
+ * when the thumbnail endpoint refuses (rate limits, sharing quirks).
+ */
+export function alternateImageUrl(src: string, width: number) {
+  const id = driveFileId(src);
+  return id ? `https://lh3.googleusercontent.com/d/${id}=w${width}` : null;
+}
+
+/** A `srcset` of Drive thumbnails up to `maxWidth`, or undefined elsewhere. */
+export function imageSrcSet(src: string, maxWidth = 2048) {
+  if (!driveFileId(src)) return undefined;
+  return IMAGE_WIDTHS.filter((width) => width <= maxWidth)
+    .map((width) => `${imageVariant(src, width)} ${width}w`)
+    .join(", ");
+}
+
+/** A tiny version of `src` to blur in first, if one can be had cheaply. */
+export function imagePlaceholder(src: string) {
+  return driveFileId(src) ? imageVariant(src, PLACEHOLDER_WIDTH) : null;
+}
+
+/** Warms the browser cache with the variant a <ResponsiveImage> would pick. */
+export function preloadImage(
+  src: string,
+  sizes: string,
+  fallbackWidth: number
+) {
+  const img = new Image();
+  img.decoding = "async";
+  const srcSet = imageSrcSet(src);
+  if (srcSet) {
+    img.sizes = sizes;
+    img.srcset = srcSet;
+  }
+  img.src = imageVariant(src, fallbackWidth);
+}
@@ -0,0 +1,30 @@
+// ---------- Overlay stack ----------
+// Overlays open on top of each other – the share dialog over the product
+// drawer, the lightbox over it – and they all listen on the document. Each
+// keyboard concern keeps a stack of the layers that want it, in the order
+// they opened, so only the topmost layer acts on a key press.
+
+export interface OverlayStack {
+  /** Registers a new topmost layer and returns its handle. */
+  push(): symbol;
+  remove(layer: symbol): void;
+  isTop(layer: symbol): boolean;
+}
+
+export function createOverlayStack(): OverlayStack {
+  const layers: symbol[] = [];
+  return {
+    push() {
+      const layer = Symbol("overlay");
+      layers.push(layer);
+      return layer;
+    },
+    remove(layer) {
+      const index = layers.indexOf(layer);
+      if (index !== -1) layers.splice(index, 1);
+    },
+    isTop(layer) {
+      return layers[layers.length - 1] === layer;
+    },
+  };
+}
@@ -0,0 +1,25 @@
+// ---------- Prices ----------
+// Catalog prices are whole rupees; Indian grouping (1,23,456) comes from the
+// en-IN locale rather than hand-rolled formatting.
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export function formatPrice(amount: number, locale = "en-IN") {
+  let formatter = formatters.get(locale);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: "INR",
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    });
+    formatters.set(locale, formatter);
+  }
+  return formatter.format(amount);
+}
+
+/** Whole-number discount off the MRP, or null when there is none. */
+export function discountPercent(price: number, mrp: number | undefined) {
+  if (mrp === undefined || mrp <= price) return null;
+  return Math.round(((mrp - price) / mrp) * 100);
+}
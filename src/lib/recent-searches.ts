@@ -0,0 +1,37 @@
+import { readStorage, writeStorage } from "@/lib/storage";
+
+interface StoredRecentSearchesV1 {
+  version: 1;
+  queries: string[];
+}
+
+export const RECENT_SEARCHES_STORAGE_KEY = "saree-studio:recent-searches";
+export const MAX_RECENT_SEARCHES = 6;
+
+// ---- Persistence ----
+export function loadRecentSearches(): string[] {
+  const stored = readStorage<StoredRecentSearchesV1>(
+    RECENT_SEARCHES_STORAGE_KEY
+  );
+  if (stored?.version !== 1 || !Array.isArray(stored.queries)) return [];
+  return stored.queries
+    .filter((query): query is string => typeof query === "string")
+    .slice(0, MAX_RECENT_SEARCHES);
+}
+
+export function saveRecentSearches(queries: string[]) {
+  const stored: StoredRecentSearchesV1 = { version: 1, queries };
+  writeStorage(RECENT_SEARCHES_STORAGE_KEY, stored);
+}
+
+// ---- Updates ----
+/** Moves `query` to the front, dropping case-insensitive duplicates. */
+export function addRecentSearch(queries: string[], query: string): string[] {
+  const trimmed = query.trim();
+  if (!trimmed) return queries;
+  const folded = trimmed.toLowerCase();
+  return [
+    trimmed,
+    ...queries.filter((existing) => existing.toLowerCase() !== folded),
+  ].slice(0, MAX_RECENT_SEARCHES);
+}
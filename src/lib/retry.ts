@@ -0,0 +1,74 @@
+import { isAbortError, isRetryableError } from "@/lib/api-errors";
+
+// ---------- Retry with exponential backoff ----------
+// The backend sleeps when idle and the first requests after a cold start
+// tend to hang or 502, so catalog fetches get several bounded attempts.
+
+export interface RetryOptions {
+  /** Total attempts, including the first one. */
+  attempts?: number;
+  /** Delay before the second attempt; doubles for each one after. */
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Cancels the current attempt and any pending retry. */
+  signal?: AbortSignal;
+  /** Called before each attempt, 1-based. */
+  onAttempt?: (attempt: number, attempts: number) => void;
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+export const DEFAULT_RETRY_ATTEMPTS = 5;
+
+function abortReason(signal: AbortSignal) {
+  return signal.reason ?? new DOMException("Aborted", "AbortError");
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortReason(signal));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    function onAbort() {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export function backoffDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number
+) {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  // ±20% jitter so a fleet of tablets doesn't retry in lockstep.
+  return Math.round(exponential * (0.8 + Math.random() * 0.4));
+}
+
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  {
+    attempts = DEFAULT_RETRY_ATTEMPTS,
+    baseDelayMs = 1000,
+    maxDelayMs = 8000,
+    signal,
+    onAttempt,
+    shouldRetry = isRetryableError,
+  }: RetryOptions = {}
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    if (signal?.aborted) throw abortReason(signal);
+    onAttempt?.(attempt, attempts);
+    try {
+      return await fn(attempt);
+    } catch (err) {
+      if (isAbortError(err) || signal?.aborted) throw err;
+      if (attempt >= attempts || !shouldRetry(err)) throw err;
+      console.warn(`Attempt ${attempt} of ${attempts} failed, retrying:`, err);
+      await sleep(backoffDelay(attempt, baseDelayMs, maxDelayMs), signal);
+    }
+  }
+}
@@ -0,0 +1,123 @@
+// ---------- Routes ----------
+// A deliberately tiny History-API router: the catalog only has a handful of
+// addressable pages, so path parsing lives here and the React side is a
+// single hook (use-route) plus a <Link> component.
+
+export type Route =
+  | { name: "home" }
+  | { name: "wishlist" }
+  | { name: "category"; categoryId: string }
+  | { name: "subfolder"; categoryId: string; subfolderId: string }
+  | { name: "item"; itemId: string }
+  | { name: "product"; itemId: string }
+  | { name: "notFound" };
+
+/** Extra data we keep in history.state alongside a URL. */
+export interface RouteState {
+  /** Path of the page rendered behind a modal route (/item, /product). */
+  background?: string;
+}
+
+export interface RouterLocation {
+  pathname: string;
+  search: string;
+  state: RouteState | null;
+}
+
+export const NAVIGATE_EVENT = "saree-studio:navigate";
+
+// ---- Parsing ----
+function decodeSegment(segment: string) {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+export function parseRoute(pathname: string): Route {
+  const segments = pathname.split("/").filter(Boolean).map(decodeSegment);
+
+  if (segments.length === 0) return { name: "home" };
+  if (segments[0] === "wishlist" && segments.length === 1) {
+    return { name: "wishlist" };
+  }
+  if (segments[0] === "category" && segments.length === 2) {
+    return { name: "category", categoryId: segments[1] };
+  }
+  if (segments[0] === "category" && segments.length === 3) {
+    return {
+      name: "subfolder",
+      categoryId: segments[1],
+      subfolderId: segments[2],
+    };
+  }
+  if (segments[0] === "item" && segments.length === 2) {
+    return { name: "item", itemId: segments[1] };
+  }
+  if (segments[0] === "product" && segments.length === 2) {
+    return { name: "product", itemId: segments[1] };
+  }
+  return { name: "notFound" };
+}
+
+// ---- Building ----
+export const paths = {
+  home: () => "/",
+  wishlist: () => "/wishlist",
+  category: (categoryId: string) =>
+    `/category/${encodeURIComponent(categoryId)}`,
+  subfolder: (categoryId: string, subfolderId: string) =>
+    `/category/${encodeURIComponent(categoryId)}/${encodeURIComponent(
+      subfolderId
+    )}`,
+  item: (itemId: string) => `/item/${encodeURIComponent(itemId)}`,
+  product: (itemId: string) => `/product/${encodeURIComponent(itemId)}`,
+};
+
+// ---- History ----
+export function readLocation(): RouterLocation {
+  return {
+    pathname: window.location.pathname,
+    search: window.location.search,
+    state: (window.history.state as RouteState | null) ?? null,
+  };
+}
+
+export function navigate(
+  to: string,
+  options: { replace?: boolean; state?: RouteState } = {}
+) {
+  const state = options.state ?? null;
+  if (options.replace) {
+    window.history.replaceState(state, "", to);
+  } else {
+    window.history.pushState(state, "", to);
+  }
+  // pushState/replaceState don't fire popstate, so tell subscribers ourselves.
+  window.dispatchEvent(new Event(NAVIGATE_EVENT));
+}
+
+export function buildPath(route: Route): string {
+  switch (route.name) {
+    case "wishlist":
+      return paths.wishlist();
+    case "category":
+      return paths.category(route.categoryId);
+    case "subfolder":
+      return paths.subfolder(route.categoryId, route.subfolderId);
+    case "item":
+      return paths.item(route.itemId);
+    case "product":
+      return paths.product(route.itemId);
+    default:
+      return paths.home();
+  }
+}
+
+/** Routes rendered as an overlay on top of another page. */
+export function isModalRoute(
+  route: Route
+): route is Extract<Route, { name: "item" | "product" }> {
+  return route.name === "item" || route.name === "product";
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import type { Category } from "@/lib/catalog";
+import {
+  buildSearchIndex,
+  highlightMatches,
+  searchCatalog,
+  tokenize,
+} from "@/lib/search";
+import { COTTON_SAREE, SILK_SAREE } from "@/test/fixtures";
+
+const CATALOG: Category[] = [
+  {
+    id: "silk",
+    name: "Banarasi Silk",
+    names: { hi: "बनारसी साड़ी", kn: "ರೇಷ್ಮೆ ಸೀರೆ" },
+    subfolders: [
+      {
+        id: "kanjivaram",
+        name: "Kanjivaram",
+        preview: [SILK_SAREE],
+        all: [SILK_SAREE],
+      },
+    ],
+  },
+  {
+    id: "cotton",
+    name: "Cotton",
+    names: { hi: "सूती साड़ी", kn: "ಹತ್ತಿ ಸೀರೆ" },
+    subfolders: [
+      {
+        id: "chanderi",
+        name: "Chanderi",
+        preview: [COTTON_SAREE],
+        all: [COTTON_SAREE],
+      },
+    ],
+  },
+];
+
+function matchingCategories(query: string) {
+  const results = searchCatalog(buildSearchIndex(CATALOG), CATALOG, query);
+  return Array.from(results.keys(), (key) => key.split("/")[0]);
+}
+
+describe("search", () => {
+  it("keeps Indic vowel signs and viramas inside their words", () => {
+    // Tokens are NFD-normalised, which splits some Kannada vowel signs.
+    const words = (text: string) => text.normalize("NFD").split(" ");
+    expect(tokenize("बनारसी साड़ी")).toEqual(words("बनारसी साड़ी"));
+    expect(tokenize("रेशम")).toEqual(words("रेशम"));
+    expect(tokenize("ರೇಷ್ಮೆ ಸೀರೆ")).toEqual(words("ರೇಷ್ಮೆ ಸೀರೆ"));
+  });
+
+  it("still folds Latin accents", () => {
+    expect(tokenize("Kāñjīvaram")).toEqual(["kanjivaram"]);
+  });
+
+  it("finds categories by their Hindi and Kannada names", () => {
+    expect(matchingCategories("बनारसी")).toEqual(["silk"]);
+    expect(matchingCategories("ರೇಷ್ಮೆ")).toEqual(["silk"]);
+    expect(matchingCategories("ಹತ್ತಿ")).toEqual(["cotton"]);
+    // Shared by both names, so it narrows nothing down.
+    expect(matchingCategories("ಸೀರೆ")).toEqual(["silk", "cotton"]);
+  });
+
+  it("doesn't match fragments from the middle of Hindi words", () => {
+    // "बनारसी साड़ी" used to split into "बन", "रस", "स" and "ड".
+    expect(matchingCategories("ड")).toEqual([]);
+    expect(matchingCategories("रस")).toEqual([]);
+  });
+
+  it("highlights whole Hindi words", () => {
+    expect(highlightMatches("बनारसी साड़ी", "बनारसी")).toEqual([
+      { text: "बनारसी", match: true },
+      { text: " साड़ी", match: false },
+    ]);
+  });
+});
@@ -0,0 +1,361 @@
+import { subfolderKey, type Category } from "@/lib/catalog";
+
+// ---------- Catalog search ----------
+// Every query word has to match somewhere in an item's name, its subfolder
+// or its category (AND across words). Words match exactly, as a prefix, as a
+// substring or – for longer words – within a typo or two, so "banarsi" still
+// finds "Banarasi". Text is case- and diacritic-folded on both sides.
+
+// Only the Latin accents are folded away: in Indic scripts vowel signs and
+// viramas are marks too, and they belong to the word ("रेशम", not "र" "शम").
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+const WORD = /[\p{L}\p{M}\p{N}]+/gu;
+
+export function foldText(text: string) {
+  return text.normalize("NFD").replace(COMBINING_MARKS, "").toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return Array.from(foldText(text).matchAll(WORD), (match) => match[0]);
+}
+
+/** Distinct query words, in the order typed. */
+export function parseSearchQuery(query: string): string[] {
+  return Array.from(new Set(tokenize(query)));
+}
+
+// ---- Word matching ----
+function maxTypos(length: number) {
+  if (length < 4) return 0;
+  if (length < 7) return 1;
+  return 2;
+}
+
+/** Edit distance counting adjacent swaps as one edit; gives up past `limit`. */
+function editDistance(a: string, b: string, limit: number) {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      row.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+    prevPrev = prev;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** How well `word` matches `query`, from 1 (identical) down to 0 (no match). */
+export function wordMatchScore(query: string, word: string): number {
+  if (word === query) return 1;
+  if (word.startsWith(query)) return 0.8;
+  if (query.length >= 3 && word.includes(query)) return 0.6;
+
+  const typos = maxTypos(query.length);
+  if (typos === 0) return 0;
+  const distance = editDistance(query, word, typos);
+  if (distance <= typos) return 0.5 - distance * 0.1;
+  // A typo in a word that's still being typed: "banars" → "banarasi".
+  if (word.length > query.length) {
+    const prefix = editDistance(query, word.slice(0, query.length), typos);
+    if (prefix <= typos) return 0.3 - prefix * 0.05;
+  }
+  return 0;
+}
+
+// ---- Index ----
+export interface SearchIndex {
+  /** Folded words per category id, subfolder key and item id. */
+  categories: Map<string, string[]>;
+  subfolders: Map<string, string[]>;
+  items: Map<string, string[]>;
+}
+
+/** The name plus any localized names, so every language finds it. */
+function searchableName(entity: Pick<Category, "name" | "names">) {
+  return [entity.name, ...Object.values(entity.names ?? {})].join(" ");
+}
+
+export function buildSearchIndex(catalog: Category[]): SearchIndex {
+  const index: SearchIndex = {
+    categories: new Map(),
+    subfolders: new Map(),
+    items: new Map(),
+  };
+  for (const category of catalog) {
+    index.categories.set(category.id, tokenize(searchableName(category)));
+    for (const sub of category.subfolders) {
+      index.subfolders.set(
+        subfolderKey(category.id, sub.id),
+        tokenize(searchableName(sub))
+      );
+      for (const item of sub.all) {
+        if (!index.items.has(item.id)) {
+          index.items.set(item.id, tokenize(item.name));
+        }
+      }
+    }
+  }
+  return index;
+}
+
+// ---- Searching ----
+// A match in a piece's own name outranks one inherited from its subfolder,
+// which outranks one inherited from its category.
+const ITEM_WEIGHT = 3;
+const SUBFOLDER_WEIGHT = 2;
+const CATEGORY_WEIGHT = 1;
+
+export interface SubfolderResult {
+  score: number;
+  /** Relevance of each matching piece, keyed by item id. */
+  items: Map<string, number>;
+}
+
+/** Matching subfolders keyed by `subfolderKey`; absent means no match. */
+export type SearchResults = Map<string, SubfolderResult>;
+
+export function searchCatalog(
+  index: SearchIndex,
+  catalog: Category[],
+  query: string
+): SearchResults {
+  const terms = parseSearchQuery(query);
+  const results: SearchResults = new Map();
+  if (terms.length === 0) return results;
+
+  // The vocabulary is much smaller than the catalog, so score each distinct
+  // word once per term and reuse it.
+  const wordScores = terms.map(() => new Map<string, number>());
+  function fieldScores(words: string[] | undefined, weight: number) {
+    return terms.map((term, t) => {
+      let best = 0;
+      for (const word of words ?? []) {
+        let score = wordScores[t].get(word);
+        if (score === undefined) {
+          score = wordMatchScore(term, word);
+          wordScores[t].set(word, score);
+        }
+        best = Math.max(best, score);
+      }
+      return best * weight;
+    });
+  }
+  function combine(fields: number[][]) {
+    let total = 0;
+    for (let t = 0; t < terms.length; t++) {
+      const best = Math.max(...fields.map((scores) => scores[t]));
+      if (best === 0) return 0;
+      total += best;
+    }
+    return total;
+  }
+
+  for (const category of catalog) {
+    const categoryScores = fieldScores(
+      index.categories.get(category.id),
+      CATEGORY_WEIGHT
+    );
+    for (const sub of category.subfolders) {
+      const key = subfolderKey(category.id, sub.id);
+      const subScores = fieldScores(
+        index.subfolders.get(key),
+        SUBFOLDER_WEIGHT
+      );
+      const items = new Map<string, number>();
+      for (const item of sub.all) {
+        const score = combine([
+          fieldScores(index.items.get(item.id), ITEM_WEIGHT),
+          subScores,
+          categoryScores,
+        ]);
+        if (score > 0) items.set(item.id, score);
+      }
+      const ownScore = combine([subScores, categoryScores]);
+      const score = Math.max(ownScore, ...items.values());
+      if (score > 0) results.set(key, { score, items });
+    }
+  }
+  return results;
+}
+
+// ---- Highlighting ----
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Splits `text` into matched and unmatched runs for `query`. Exact, prefix
+ * and substring matches highlight just the typed letters; typo matches
+ * highlight the whole word.
+ */
+export function highlightMatches(
+  text: string,
+  query: string
+): HighlightSegment[] {
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0 || !text) return [{ text, match: false }];
+
+  // Fold character by character so folded offsets map back onto `text`.
+  let folded = "";
+  const origin: number[] = [];
+  let offset = 0;
+  for (const char of text) {
+    const foldedChar = foldText(char);
+    for (let i = 0; i < foldedChar.length; i++) origin.push(offset);
+    folded += foldedChar;
+    offset += char.length;
+  }
+  origin.push(text.length);
+
+  const marked = new Array<boolean>(text.length).fill(false);
+  function mark(start: number, end: number) {
+    for (let i = origin[start]; i < origin[end]; i++) marked[i] = true;
+  }
+
+  for (const match of folded.matchAll(WORD)) {
+    const word = match[0];
+    const start = match.index;
+    for (const term of terms) {
+      const score = wordMatchScore(term, word);
+      if (score === 0) continue;
+      const at = word.indexOf(term);
+      if (at >= 0) mark(start + at, start + at + term.length);
+      else mark(start, start + word.length);
+    }
+  }
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marked[i]) last.text += text[i];
+    else segments.push({ text: text[i], match: marked[i] });
+  }
+  return segments;
+}
+
+// ---- Suggestions ----
+export type SearchSuggestion =
+  | { kind: "category"; categoryId: string; label: string }
+  | {
+      kind: "subfolder";
+      categoryId: string;
+      subfolderId: string;
+      label: string;
+      detail: string;
+    }
+  | { kind: "item"; itemId: string; label: string; detail: string };
+
+const SUGGESTION_LIMITS: Record<SearchSuggestion["kind"], number> = {
+  category: 3,
+  subfolder: 4,
+  item: 5,
+};
+
+/**
+ * Names that match every word of `query` on their own, best first and
+ * capped per kind, for the autocomplete dropdown.
+ */
+export function suggestSearches(
+  index: SearchIndex,
+  catalog: Category[],
+  query: string
+): SearchSuggestion[] {
+  const terms = parseSearchQuery(query);
+  if (terms.length === 0) return [];
+
+  function score(words: string[] | undefined) {
+    let total = 0;
+    for (const term of terms) {
+      let best = 0;
+      for (const word of words ?? []) {
+        best = Math.max(best, wordMatchScore(term, word));
+      }
+      if (best === 0) return 0;
+      total += best;
+    }
+    return total;
+  }
+
+  const scored: { suggestion: SearchSuggestion; score: number }[] = [];
+  const seenItems = new Set<string>();
+  for (const category of catalog) {
+    const categoryScore = score(index.categories.get(category.id));
+    if (categoryScore > 0) {
+      scored.push({
+        suggestion: {
+          kind: "category",
+          categoryId: category.id,
+          label: category.name,
+        },
+        score: categoryScore,
+      });
+    }
+    for (const sub of category.subfolders) {
+      const subScore = score(
+        index.subfolders.get(subfolderKey(category.id, sub.id))
+      );
+      if (subScore > 0) {
+        scored.push({
+          suggestion: {
+            kind: "subfolder",
+            categoryId: category.id,
+            subfolderId: sub.id,
+            label: sub.name,
+            detail: category.name,
+          },
+          score: subScore,
+        });
+      }
+      for (const item of sub.all) {
+        if (seenItems.has(item.id)) continue;
+        seenItems.add(item.id);
+        const itemScore = score(index.items.get(item.id));
+        if (itemScore > 0) {
+          scored.push({
+            suggestion: {
+              kind: "item",
+              itemId: item.id,
+              label: item.name,
+              detail: `${category.name} · ${sub.name}`,
+            },
+            score: itemScore,
+          });
+        }
+      }
+    }
+  }
+
+  // Best first; shorter names win ties since they match more of the query.
+  scored.sort(
+    (a, b) =>
+      b.score - a.score || a.suggestion.label.length - b.suggestion.label.length
+  );
+  const taken: Record<SearchSuggestion["kind"], number> = {
+    category: 0,
+    subfolder: 0,
+    item: 0,
+  };
+  const suggestions: SearchSuggestion[] = [];
+  for (const { suggestion } of scored) {
+    if (taken[suggestion.kind] >= SUGGESTION_LIMITS[suggestion.kind]) continue;
+    taken[suggestion.kind]++;
+    suggestions.push(suggestion);
+  }
+  // Group by kind for display, keeping relevance order inside each group.
+  const order = ["category", "subfolder", "item"];
+  return suggestions.sort(
+    (a, b) => order.indexOf(a.kind) - order.indexOf(b.kind)
+  );
+}
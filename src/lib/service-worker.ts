@@ -0,0 +1,14 @@
+// ---------- Service worker registration ----------
+// The worker itself lives in public/sw.js so it is served from the site root
+// and can control every route. It is only registered in production builds:
+// in dev it would cache Vite's unbundled modules and fight with HMR.
+
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register("/sw.js")
+      .catch((err) => console.warn("Service worker registration failed:", err));
+  });
+}
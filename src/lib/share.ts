@@ -0,0 +1,112 @@
+// ---------- Sharing ----------
+// A shared link opens the product panel for that piece directly, on top of
+// the subfolder it is listed in.
+import type { CatalogItem } from "@/lib/catalog";
+import type { I18n, Translate } from "@/lib/i18n";
+import { imageVariant } from "@/lib/images";
+import { paths } from "@/lib/router";
+
+const SHARE_IMAGE_WIDTH = 1080;
+
+export interface ShareContent {
+  title: string;
+  text: string;
+  url: string;
+  /** Link to a large version of the photo, when the piece has one. */
+  imageUrl: string | null;
+}
+
+export function itemShareUrl(itemId: string) {
+  return new URL(paths.product(itemId), window.location.origin).toString();
+}
+
+/** Link to a large version of a photo, suitable for pasting in a message. */
+export function shareImageUrl(image: string | null) {
+  return image ? imageVariant(image, SHARE_IMAGE_WIDTH) : null;
+}
+
+export function itemShareContent(
+  item: CatalogItem,
+  { formatPrice }: Pick<I18n, "formatPrice">
+): ShareContent {
+  const details = [item.fabric, item.colour].filter(Boolean).join(", ");
+  const price = item.price !== undefined ? formatPrice(item.price) : null;
+  return {
+    title: item.name,
+    text: [item.name, details, price].filter(Boolean).join(" – "),
+    url: itemShareUrl(item.id),
+    imageUrl: shareImageUrl(item.image),
+  };
+}
+
+// ---- Targets ----
+function messageBody({ text, url, imageUrl }: ShareContent, t: Translate) {
+  return [text, url, imageUrl && t("share.photo", { url: imageUrl })]
+    .filter(Boolean)
+    .join("\n");
+}
+
+/** A wa.me link that opens `text` in a chat with `phone`, or lets the user pick one. */
+export function whatsAppUrl(text: string, phone = "") {
+  return `https://wa.me/${phone}?text=${encodeURIComponent(text)}`;
+}
+
+export function whatsAppShareUrl(content: ShareContent, t: Translate) {
+  return whatsAppUrl(messageBody(content, t));
+}
+
+export function emailShareUrl(content: ShareContent, t: Translate) {
+  const subject = encodeURIComponent(
+    t("share.subject", { name: content.title })
+  );
+  return `mailto:?subject=${subject}&body=${encodeURIComponent(
+    messageBody(content, t)
+  )}`;
+}
+
+// ---- Native share & clipboard ----
+/**
+ * Opens the system share sheet. Resolves to false when the browser has no
+ * Web Share support or refused this payload, so the caller can offer its
+ * own options; a sheet the user dismissed still counts as handled.
+ */
+export async function shareNatively(content: ShareContent): Promise<boolean> {
+  const data: ShareData = {
+    title: content.title,
+    text: content.text,
+    url: content.url,
+  };
+  if (typeof navigator.share !== "function") return false;
+  if (navigator.canShare && !navigator.canShare(data)) return false;
+  try {
+    await navigator.share(data);
+    return true;
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "AbortError") return true;
+    console.warn("Web Share failed, falling back:", err);
+    return false;
+  }
+}
+
+/** Copies `text`, falling back to a hidden textarea outside secure contexts. */
+export async function copyText(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    const textarea = document.createElement("textarea");
+    textarea.value = text;
+    textarea.setAttribute("readonly", "");
+    textarea.style.position = "fixed";
+    textarea.style.opacity = "0";
+    document.body.appendChild(textarea);
+    textarea.select();
+    try {
+      return document.execCommand("copy");
+    } catch {
+      return false;
+    } finally {
+      textarea.remove();
+    }
+  }
+}
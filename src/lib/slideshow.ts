@@ -0,0 +1,54 @@
+import type { CatalogItem, Category } from "@/lib/catalog";
+import { readStorage, writeStorage } from "@/lib/storage";
+
+export interface SlideshowSettings {
+  /** Time each piece stays on screen, in ms. */
+  intervalMs: number;
+  /** Carry on into the category's other subfolders instead of repeating one. */
+  loopCategory: boolean;
+}
+
+interface StoredSlideshowSettingsV1 extends SlideshowSettings {
+  version: 1;
+}
+
+export const SLIDESHOW_STORAGE_KEY = "saree-studio:slideshow";
+export const SLIDESHOW_INTERVALS = [3000, 5000, 8000, 12000, 20000];
+export const DEFAULT_SLIDESHOW_SETTINGS: SlideshowSettings = {
+  intervalMs: 5000,
+  loopCategory: false,
+};
+/** How long the slideshow holds still after someone touches the screen. */
+export const SLIDESHOW_INTERACTION_PAUSE_MS = 15000;
+
+// ---- Persistence ----
+export function loadSlideshowSettings(): SlideshowSettings {
+  const stored = readStorage<StoredSlideshowSettingsV1>(SLIDESHOW_STORAGE_KEY);
+  if (stored?.version !== 1) return DEFAULT_SLIDESHOW_SETTINGS;
+  return {
+    intervalMs: SLIDESHOW_INTERVALS.includes(stored.intervalMs)
+      ? stored.intervalMs
+      : DEFAULT_SLIDESHOW_SETTINGS.intervalMs,
+    loopCategory: stored.loopCategory === true,
+  };
+}
+
+export function saveSlideshowSettings(settings: SlideshowSettings) {
+  const stored: StoredSlideshowSettingsV1 = { version: 1, ...settings };
+  writeStorage(SLIDESHOW_STORAGE_KEY, stored);
+}
+
+// ---- Sequence ----
+/** Every piece of a category, subfolder by subfolder, each listed once. */
+export function categorySlideshowItems(category: Category): CatalogItem[] {
+  const seen = new Set<string>();
+  const items: CatalogItem[] = [];
+  for (const subfolder of category.subfolders) {
+    for (const item of subfolder.all) {
+      if (seen.has(item.id)) continue;
+      seen.add(item.id);
+      items.push(item);
+    }
+  }
+  return items;
+}
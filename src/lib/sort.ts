@@ -0,0 +1,53 @@
+import type { CatalogItem } from "@/lib/catalog";
+import type { MessageKey } from "@/lib/i18n";
+
+// ---------- Item sorting ----------
+export type SortKey =
+  "featured" | "price-asc" | "price-desc" | "name" | "newest";
+
+export const SORT_OPTIONS: { value: SortKey; labelKey: MessageKey }[] = [
+  { value: "featured", labelKey: "sort.featured" },
+  { value: "price-asc", labelKey: "sort.priceAsc" },
+  { value: "price-desc", labelKey: "sort.priceDesc" },
+  { value: "name", labelKey: "sort.name" },
+  { value: "newest", labelKey: "sort.newest" },
+];
+
+export function isSortKey(value: unknown): value is SortKey {
+  return SORT_OPTIONS.some((option) => option.value === value);
+}
+
+/**
+ * Items missing the sort field (no price, no date) always go last, keeping
+ * their catalog order; "featured" is the order the backend sent.
+ */
+export function sortItems(items: CatalogItem[], sort: SortKey): CatalogItem[] {
+  if (sort === "featured") return items;
+
+  const byMissingLast = <T>(
+    a: T | undefined,
+    b: T | undefined,
+    compare: (a: T, b: T) => number
+  ) => {
+    if (a === undefined && b === undefined) return 0;
+    if (a === undefined) return 1;
+    if (b === undefined) return -1;
+    return compare(a, b);
+  };
+
+  // Array.prototype.sort is stable, so ties keep catalog order.
+  return [...items].sort((a, b) => {
+    switch (sort) {
+      case "price-asc":
+        return byMissingLast(a.price, b.price, (x, y) => x - y);
+      case "price-desc":
+        return byMissingLast(a.price, b.price, (x, y) => y - x);
+      case "name":
+        return a.name.localeCompare(b.name, undefined, { numeric: true });
+      case "newest":
+        return byMissingLast(a.createdAt, b.createdAt, (x, y) =>
+          y.localeCompare(x)
+        );
+    }
+  });
+}
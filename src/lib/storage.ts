@@ -0,0 +1,42 @@
+// ---------- localStorage helpers ----------
+// Every read/write is guarded: private browsing, quota errors and corrupt
+// JSON must never take the catalog down, they just behave like an empty store.
+
+export function readStorage<T>(key: string): T | null {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  } catch (err) {
+    console.warn(`Could not read "${key}" from localStorage:`, err);
+    return null;
+  }
+}
+
+export function writeStorage(
+  key: string,
+  value: unknown,
+  { maxChars }: { maxChars?: number } = {}
+): boolean {
+  try {
+    const raw = JSON.stringify(value);
+    if (maxChars !== undefined && raw.length > maxChars) {
+      console.warn(
+        `Not writing "${key}" to localStorage: ${raw.length} chars exceeds the ${maxChars} limit`
+      );
+      return false;
+    }
+    window.localStorage.setItem(key, raw);
+    return true;
+  } catch (err) {
+    console.warn(`Could not write "${key}" to localStorage:`, err);
+    return false;
+  }
+}
+
+export function removeStorage(key: string) {
+  try {
+    window.localStorage.removeItem(key);
+  } catch {
+    // ignore – nothing to clean up if storage is unavailable
+  }
+}
@@ -0,0 +1,51 @@
+import { readStorage, writeStorage } from "@/lib/storage";
+
+// ---------- Theme ----------
+// "system" follows prefers-color-scheme; the other two pin the choice.
+export type Theme = "light" | "dark" | "system";
+export type ResolvedTheme = Exclude<Theme, "system">;
+
+interface StoredThemeV1 {
+  version: 1;
+  theme: Theme;
+}
+
+// index.html reads the same key before first paint; keep the two in step.
+export const THEME_STORAGE_KEY = "saree-studio:theme";
+export const THEMES: Theme[] = ["light", "dark", "system"];
+const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+function isTheme(value: unknown): value is Theme {
+  return THEMES.includes(value as Theme);
+}
+
+// ---- Persistence ----
+export function loadTheme(): Theme {
+  const stored = readStorage<StoredThemeV1>(THEME_STORAGE_KEY);
+  return stored?.version === 1 && isTheme(stored.theme)
+    ? stored.theme
+    : "system";
+}
+
+export function saveTheme(theme: Theme) {
+  const stored: StoredThemeV1 = { version: 1, theme };
+  writeStorage(THEME_STORAGE_KEY, stored);
+}
+
+// ---- Applying ----
+export function systemThemeQuery() {
+  return window.matchMedia(DARK_QUERY);
+}
+
+export function resolveTheme(theme: Theme): ResolvedTheme {
+  if (theme !== "system") return theme;
+  return systemThemeQuery().matches ? "dark" : "light";
+}
+
+/** Tailwind's `dark:` variant keys off the class on <html>. */
+export function applyTheme(theme: ResolvedTheme) {
+  const root = document.documentElement;
+  root.classList.toggle("dark", theme === "dark");
+  // Native scrollbars and form controls follow along.
+  root.style.colorScheme = theme;
+}
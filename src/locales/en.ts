@@ -0,0 +1,288 @@
+import type { Message } from "@/lib/i18n";
+
+// ---------- English ----------
+// The source catalog: its keys are the MessageKey type, so every other
+// catalog has to translate exactly these.
+
+export const en = {
+  // ---- Brand & hero ----
+  "brand.name": "Saree Studio",
+  "brand.tagline": "Premium Collection",
+  "hero.subtitle":
+    "Where tradition meets elegance. Discover our curated collection of exquisite sarees crafted for the modern woman.",
+  "hero.explore": "Explore Collection",
+  "hero.catalog": "Premium Catalog",
+
+  // ---- Loading & errors ----
+  "loading.title": "Curating Excellence",
+  "loading.message": "Unveiling our premium saree collection...",
+  "loading.retrying":
+    "Waking up the server, attempt {attempt} of {attempts}...",
+  "loading.more": "Loading more pieces...",
+  "action.tryAgain": "Try Again",
+  "action.retry": "Retry",
+  "action.close": "Close",
+  "action.dismiss": "Dismiss",
+  "error.network.title": "Can't reach the catalog",
+  "error.network.message":
+    "We couldn't connect to our server. Please check your internet connection and try again.",
+  "error.timeout.title": "The catalog is taking too long",
+  "error.timeout.message":
+    "Our server didn't respond in time. It may still be starting up – please try again.",
+  "error.http.title": "The catalog is unavailable",
+  "error.http.server":
+    "Our server ran into a problem (error {status}). Please try again in a moment.",
+  "error.http.refused": "The catalog request was refused (error {status}).",
+  "error.schema.title": "The catalog couldn't be read",
+  "error.schema.message": {
+    one: "We received catalog data in an unexpected format ({count} problem found).",
+    other:
+      "We received catalog data in an unexpected format ({count} problems found).",
+  },
+  "error.unknown.title": "Oops! Something went wrong",
+  "error.unknown.message": "Cannot fetch catalog",
+  "status.offline": "You're offline, showing the saved catalog.",
+  "status.offlineSince":
+    "You're offline, showing the saved catalog from {date}.",
+  "status.stale": "We couldn't refresh the catalog, showing the saved copy.",
+  "status.staleSince":
+    "We couldn't refresh the catalog, showing the saved copy from {date}.",
+  "status.updated": "Catalog updated",
+
+  // ---- Navigation ----
+  "nav.skipToCatalog": "Skip to collection",
+  "nav.main": "Main",
+  "nav.collection": "Collection",
+  "nav.about": "About",
+  "nav.contact": "Contact",
+  "nav.wishlist": "Wishlist ({count})",
+  "nav.cart": "Cart ({count})",
+  "nav.openMenu": "Open menu",
+  "nav.closeMenu": "Close menu",
+  "nav.menu": "Menu",
+  "nav.categories": "Categories",
+  "nav.theme": "Theme",
+  "nav.language": "Language",
+  "nav.allCollections": "All Collections",
+
+  // ---- Search ----
+  "search.label": "Search sarees",
+  "search.placeholder": "Search exquisite sarees, collections, or styles...",
+  "search.suggestions": "Search suggestions",
+  "search.clear": "Clear",
+  "search.group.recent": "Recent searches",
+  "search.group.category": "Collections",
+  "search.group.subfolder": "Sub-collections",
+  "search.group.item": "Sarees",
+
+  // ---- Sorting & view ----
+  "sort.label": "Sort by",
+  "sort.featured": "Featured",
+  "sort.priceAsc": "Price: Low to High",
+  "sort.priceDesc": "Price: High to Low",
+  "sort.name": "Name",
+  "sort.newest": "Newest",
+  "view.grid": "Grid view",
+  "view.list": "List view",
+
+  // ---- Filters ----
+  "filters.toggle": "Filters",
+  "filters.byCollection": "Filter by Collection",
+  "filters.clearAll": "Clear All",
+  "filters.active": "Active Filters:",
+  "filters.remove": "Remove filter {label}",
+  "filters.value": "{label}: {value}",
+  "filters.noMatch.title": "No sarees match these filters",
+  "filters.noMatch.message":
+    "Try removing a filter or widening the price range.",
+  "filters.noMatch.action": "Clear All Filters",
+  "facet.fabric": "Fabric",
+  "facet.colour": "Colour",
+  "facet.occasion": "Occasion",
+  "facet.sarees": { one: "saree", other: "sarees" },
+  "price.label": "Price",
+  "price.min": "Minimum price",
+  "price.max": "Maximum price",
+  "price.range": "{min} – {max}",
+  "price.under": "Under {max}",
+  "price.above": "{min} and above",
+  "price.any": "Any price",
+  "price.off": "{percent}% off",
+
+  // ---- Catalog ----
+  "catalog.notFound.title": "We couldn't find that page",
+  "catalog.notFound.message":
+    "The collection or saree you're looking for may have been moved or is no longer available.",
+  "catalog.notFound.action": "Browse the Collection",
+  "category.badge": "{name} Collection",
+  "category.description":
+    "Discover the finest collection of {name} sarees, each piece telling a story of craftsmanship and elegance.",
+  "category.slideshow": "Slideshow",
+  "subfolder.pieces": {
+    one: "{count} exquisite piece in this collection",
+    other: "{count} exquisite pieces in this collection",
+  },
+  "subfolder.viewAll": "View All ({count})",
+  "subfolder.showLess": "Show Less",
+
+  // ---- Items ----
+  "item.view": "View",
+  "item.viewFullScreen": "View full screen",
+  "item.viewNamedFullScreen": "View {name} full screen",
+  "item.share": "Share {name}",
+  "item.addToWishlist": "Add to wishlist",
+  "item.removeFromWishlist": "Remove from wishlist",
+  "item.addNamedToWishlist": "Add {name} to wishlist",
+  "item.removeNamedFromWishlist": "Remove {name} from wishlist",
+  "item.addToCart": "Add to Cart",
+  "item.soldOut": "Sold Out",
+  "item.imageView": "{name} – view {number}",
+  "item.care": "Care instructions",
+  "stock.soldOut": "Sold out",
+  "stock.low": "Only {count} left",
+  "stock.inStock": "In stock",
+  "attribute.fabric": "Fabric",
+  "attribute.colour": "Colour",
+  "attribute.occasion": "Occasion",
+  "attribute.length": "Length",
+  "attribute.blousePiece": "Blouse piece",
+  "attribute.included": "Included",
+  "attribute.notIncluded": "Not included",
+  "attribute.metres": "{length} m",
+
+  // ---- Wishlist ----
+  "wishlist.title": "My Wishlist",
+  "wishlist.saved": {
+    one: "{count} piece saved for later",
+    other: "{count} pieces saved for later",
+  },
+  "wishlist.back": "Back to Collection",
+  "wishlist.empty": "Tap the heart on any saree to save it here.",
+
+  // ---- Cart ----
+  "cart.title": "Your Cart ({count})",
+  "cart.close": "Close cart",
+  "cart.empty": "Your cart is empty. Add a saree you love to get started.",
+  "cart.continue": "Continue Browsing",
+  "cart.decrease": "Decrease quantity of {name}",
+  "cart.increase": "Increase quantity of {name}",
+  "cart.remove": "Remove {name} from cart",
+  "cart.totalPieces": "Total pieces",
+  "cart.subtotal": "Subtotal",
+  "cart.unpriced":
+    "Some pieces are priced on request and aren't included in the subtotal.",
+  "cart.clear": "Clear Cart",
+
+  // ---- Checkout ----
+  "checkout.start": "Request to Order",
+  "checkout.title": "Your Details",
+  "checkout.intro":
+    "Share your details and we'll confirm availability, the final price and delivery with you.",
+  "checkout.back": "Back to cart",
+  "checkout.name": "Name",
+  "checkout.phone": "Phone / WhatsApp number",
+  "checkout.notes": "Notes (optional)",
+  "checkout.notesPlaceholder":
+    "Blouse stitching, delivery city, a good time to call...",
+  "checkout.summary": { one: "{count} piece", other: "{count} pieces" },
+  "checkout.submit": "Send Enquiry",
+  "checkout.sending": "Sending...",
+  "checkout.whatsApp": "Send on WhatsApp",
+  "checkout.error.name": "Please enter your name.",
+  "checkout.error.phoneMissing": "Please enter your phone number.",
+  "checkout.error.phone":
+    "Please enter a valid phone number, with the country code if it isn't Indian.",
+  "checkout.error.send":
+    "We couldn't send your enquiry. Please try again, or send it on WhatsApp instead.",
+  "confirm.heading": "Order Request",
+  "confirm.title": "Enquiry sent",
+  "confirm.whatsAppTitle": "Continue in WhatsApp",
+  "confirm.message":
+    "Thank you, {name}. We'll get back to you on {phone} shortly.",
+  "confirm.whatsAppMessage":
+    "We've opened WhatsApp with your order request. Press send there to reach us.",
+  "confirm.reference": "Reference",
+  "confirm.date": "Date",
+  "confirm.saved": "A copy of this enquiry is saved on this device.",
+  "confirm.openWhatsApp": "Open WhatsApp again",
+  "confirm.done": "Done",
+  "enquiry.recent": "Your recent enquiries",
+  "enquiry.summary": {
+    one: "{date} · {count} piece",
+    other: "{date} · {count} pieces",
+  },
+  "enquiry.message.greeting":
+    "Hello Saree Studio, I'd like to order these sarees:",
+  "enquiry.message.item": "{number}. {name} (ID: {id}) × {quantity}",
+  "enquiry.message.price": "Price: {price}",
+  "enquiry.message.link": "Link: {url}",
+  "enquiry.message.subtotal": "Subtotal: {subtotal}",
+  "enquiry.message.name": "Name: {name}",
+  "enquiry.message.phone": "Phone: {phone}",
+  "enquiry.message.notes": "Notes: {notes}",
+  "enquiry.message.reference": "Reference: {reference}",
+
+  // ---- Lightbox ----
+  "lightbox.label": "{name} – image {number} of {total}",
+  "lightbox.position": "{number} of {total}",
+  "lightbox.play": "Play slideshow",
+  "lightbox.pause": "Pause slideshow",
+  "lightbox.interval": "Seconds per slide",
+  "lightbox.seconds": "{seconds}s",
+  "lightbox.loopHint": "Continue through the whole category",
+  "lightbox.loop": "Whole category",
+  "lightbox.fullScreen": "Full screen",
+  "lightbox.exitFullScreen": "Exit full screen",
+  "lightbox.previous": "Previous image",
+  "lightbox.next": "Next image",
+  "lightbox.zoomIn": "Zoom in",
+  "lightbox.zoomOut": "Zoom out",
+  "lightbox.unavailable": "Image unavailable",
+  "lightbox.thumbUnavailable": "{name} (image unavailable)",
+
+  // ---- Sharing ----
+  "share.title": "Share this saree",
+  "share.link": "Link to this saree",
+  "share.copy": "Copy link",
+  "share.copied": "Link copied",
+  "share.whatsApp": "WhatsApp",
+  "share.email": "Email",
+  "share.subject": "Have a look at this saree: {name}",
+  "share.photo": "Photo: {url}",
+
+  // ---- Theme ----
+  "theme.label": "Colour theme",
+  "theme.light": "Light",
+  "theme.dark": "Dark",
+  "theme.system": "System",
+
+  // ---- Announcements ----
+  "announce.results": {
+    one: "{count} saree found",
+    other: "{count} sarees found",
+  },
+  "announce.noResults": "No sarees match these filters",
+  "announce.addedToCart": "{name} added to cart",
+  "announce.removedFromCart": "{name} removed from cart",
+  "announce.quantity": "{name}, quantity {quantity}",
+  "announce.cartCleared": "Cart cleared",
+  "announce.enquirySent": "Enquiry {reference} sent",
+  "announce.addedToWishlist": "{name} added to wishlist",
+  "announce.removedFromWishlist": "{name} removed from wishlist",
+  "announce.saree": "Saree",
+
+  // ---- Image debugging ----
+  "debug.brokenImages": "Broken images ({count})",
+  "debug.copyIds": "Copy ids",
+  "debug.noBrokenImages": "No failed images so far.",
+  "debug.clearList": "Clear list",
+
+  // ---- Footer ----
+  "footer.about":
+    "Celebrating the timeless beauty of Indian craftsmanship through our curated collection of premium sarees.",
+  "footer.privacy": "Privacy Policy",
+  "footer.terms": "Terms of Service",
+  "footer.contact": "Contact Us",
+  "footer.copyright":
+    "© 2024 Saree Studio. Crafted with love for tradition and elegance.",
+} satisfies Record<string, Message>;
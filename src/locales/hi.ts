@@ -0,0 +1,285 @@
+import type { Messages } from "@/lib/i18n";
+
+// ---------- हिन्दी (Hindi) ----------
+
+export const hi: Messages = {
+  // ---- Brand & hero ----
+  "brand.name": "साड़ी स्टूडियो",
+  "brand.tagline": "प्रीमियम संग्रह",
+  "hero.subtitle":
+    "जहाँ परंपरा मिलती है सुरुचि से। आधुनिक नारी के लिए बुनी गई उत्कृष्ट साड़ियों का हमारा चुनिंदा संग्रह देखें।",
+  "hero.explore": "संग्रह देखें",
+  "hero.catalog": "प्रीमियम कैटलॉग",
+
+  // ---- Loading & errors ----
+  "loading.title": "उत्कृष्टता सँजोई जा रही है",
+  "loading.message": "हमारा प्रीमियम साड़ी संग्रह खुल रहा है...",
+  "loading.retrying": "सर्वर जगाया जा रहा है, प्रयास {attempt} / {attempts}...",
+  "loading.more": "और साड़ियाँ लोड हो रही हैं...",
+  "action.tryAgain": "फिर से कोशिश करें",
+  "action.retry": "दोबारा कोशिश करें",
+  "action.close": "बंद करें",
+  "action.dismiss": "हटाएँ",
+  "error.network.title": "कैटलॉग तक नहीं पहुँच पा रहे",
+  "error.network.message":
+    "हम अपने सर्वर से नहीं जुड़ सके। कृपया अपना इंटरनेट कनेक्शन जाँचें और फिर से कोशिश करें।",
+  "error.timeout.title": "कैटलॉग में बहुत समय लग रहा है",
+  "error.timeout.message":
+    "हमारे सर्वर ने समय पर जवाब नहीं दिया। हो सकता है वह अभी शुरू हो रहा हो – कृपया फिर से कोशिश करें।",
+  "error.http.title": "कैटलॉग उपलब्ध नहीं है",
+  "error.http.server":
+    "हमारे सर्वर में कोई समस्या आई (त्रुटि {status})। कृपया थोड़ी देर में फिर से कोशिश करें।",
+  "error.http.refused":
+    "कैटलॉग का अनुरोध अस्वीकार कर दिया गया (त्रुटि {status})।",
+  "error.schema.title": "कैटलॉग पढ़ा नहीं जा सका",
+  "error.schema.message": {
+    one: "कैटलॉग का डेटा अनपेक्षित रूप में मिला ({count} समस्या मिली)।",
+    other: "कैटलॉग का डेटा अनपेक्षित रूप में मिला ({count} समस्याएँ मिलीं)।",
+  },
+  "error.unknown.title": "ओह! कुछ गड़बड़ हो गई",
+  "error.unknown.message": "कैटलॉग नहीं मिल सका",
+  "status.offline": "आप ऑफ़लाइन हैं, सहेजा गया कैटलॉग दिखाया जा रहा है।",
+  "status.offlineSince":
+    "आप ऑफ़लाइन हैं, {date} का सहेजा गया कैटलॉग दिखाया जा रहा है।",
+  "status.stale": "कैटलॉग ताज़ा नहीं हो सका, सहेजी गई प्रति दिखाई जा रही है।",
+  "status.staleSince":
+    "कैटलॉग ताज़ा नहीं हो सका, {date} की सहेजी गई प्रति दिखाई जा रही है।",
+  "status.updated": "कैटलॉग अपडेट हो गया",
+
+  // ---- Navigation ----
+  "nav.skipToCatalog": "सीधे संग्रह पर जाएँ",
+  "nav.main": "मुख्य",
+  "nav.collection": "संग्रह",
+  "nav.about": "हमारे बारे में",
+  "nav.contact": "संपर्क",
+  "nav.wishlist": "विशलिस्ट ({count})",
+  "nav.cart": "कार्ट ({count})",
+  "nav.openMenu": "मेनू खोलें",
+  "nav.closeMenu": "मेनू बंद करें",
+  "nav.menu": "मेनू",
+  "nav.categories": "श्रेणियाँ",
+  "nav.theme": "थीम",
+  "nav.language": "भाषा",
+  "nav.allCollections": "सभी संग्रह",
+
+  // ---- Search ----
+  "search.label": "साड़ियाँ खोजें",
+  "search.placeholder": "उत्कृष्ट साड़ियाँ, संग्रह या शैलियाँ खोजें...",
+  "search.suggestions": "खोज सुझाव",
+  "search.clear": "साफ़ करें",
+  "search.group.recent": "हाल की खोजें",
+  "search.group.category": "संग्रह",
+  "search.group.subfolder": "उप-संग्रह",
+  "search.group.item": "साड़ियाँ",
+
+  // ---- Sorting & view ----
+  "sort.label": "क्रम से लगाएँ",
+  "sort.featured": "विशेष",
+  "sort.priceAsc": "कीमत: कम से ज़्यादा",
+  "sort.priceDesc": "कीमत: ज़्यादा से कम",
+  "sort.name": "नाम",
+  "sort.newest": "नवीनतम",
+  "view.grid": "ग्रिड दृश्य",
+  "view.list": "सूची दृश्य",
+
+  // ---- Filters ----
+  "filters.toggle": "फ़िल्टर",
+  "filters.byCollection": "संग्रह के अनुसार फ़िल्टर करें",
+  "filters.clearAll": "सब हटाएँ",
+  "filters.active": "लागू फ़िल्टर:",
+  "filters.remove": "फ़िल्टर हटाएँ: {label}",
+  "filters.value": "{label}: {value}",
+  "filters.noMatch.title": "इन फ़िल्टरों से कोई साड़ी मेल नहीं खाती",
+  "filters.noMatch.message": "कोई फ़िल्टर हटाकर या कीमत की सीमा बढ़ाकर देखें।",
+  "filters.noMatch.action": "सभी फ़िल्टर हटाएँ",
+  "facet.fabric": "कपड़ा",
+  "facet.colour": "रंग",
+  "facet.occasion": "अवसर",
+  "facet.sarees": { one: "साड़ी", other: "साड़ियाँ" },
+  "price.label": "कीमत",
+  "price.min": "न्यूनतम कीमत",
+  "price.max": "अधिकतम कीमत",
+  "price.range": "{min} – {max}",
+  "price.under": "{max} से कम",
+  "price.above": "{min} और उससे अधिक",
+  "price.any": "कोई भी कीमत",
+  "price.off": "{percent}% छूट",
+
+  // ---- Catalog ----
+  "catalog.notFound.title": "यह पेज नहीं मिला",
+  "catalog.notFound.message":
+    "आप जो संग्रह या साड़ी ढूँढ रहे हैं, वह हटा दी गई है या अब उपलब्ध नहीं है।",
+  "catalog.notFound.action": "संग्रह देखें",
+  "category.badge": "{name} संग्रह",
+  "category.description":
+    "{name} साड़ियों का बेहतरीन संग्रह देखें, जिसका हर टुकड़ा कारीगरी और सुरुचि की कहानी कहता है।",
+  "category.slideshow": "स्लाइडशो",
+  "subfolder.pieces": {
+    one: "इस संग्रह में {count} उत्कृष्ट साड़ी",
+    other: "इस संग्रह में {count} उत्कृष्ट साड़ियाँ",
+  },
+  "subfolder.viewAll": "सभी देखें ({count})",
+  "subfolder.showLess": "कम दिखाएँ",
+
+  // ---- Items ----
+  "item.view": "देखें",
+  "item.viewFullScreen": "पूरी स्क्रीन पर देखें",
+  "item.viewNamedFullScreen": "{name} पूरी स्क्रीन पर देखें",
+  "item.share": "{name} शेयर करें",
+  "item.addToWishlist": "विशलिस्ट में जोड़ें",
+  "item.removeFromWishlist": "विशलिस्ट से हटाएँ",
+  "item.addNamedToWishlist": "{name} को विशलिस्ट में जोड़ें",
+  "item.removeNamedFromWishlist": "{name} को विशलिस्ट से हटाएँ",
+  "item.addToCart": "कार्ट में जोड़ें",
+  "item.soldOut": "बिक गई",
+  "item.imageView": "{name} – दृश्य {number}",
+  "item.care": "देखभाल के निर्देश",
+  "stock.soldOut": "बिक गई",
+  "stock.low": "केवल {count} बची हैं",
+  "stock.inStock": "स्टॉक में",
+  "attribute.fabric": "कपड़ा",
+  "attribute.colour": "रंग",
+  "attribute.occasion": "अवसर",
+  "attribute.length": "लंबाई",
+  "attribute.blousePiece": "ब्लाउज़ पीस",
+  "attribute.included": "शामिल",
+  "attribute.notIncluded": "शामिल नहीं",
+  "attribute.metres": "{length} मी.",
+
+  // ---- Wishlist ----
+  "wishlist.title": "मेरी विशलिस्ट",
+  "wishlist.saved": {
+    one: "बाद के लिए {count} साड़ी सहेजी गई",
+    other: "बाद के लिए {count} साड़ियाँ सहेजी गईं",
+  },
+  "wishlist.back": "संग्रह पर वापस जाएँ",
+  "wishlist.empty": "किसी भी साड़ी का दिल दबाकर उसे यहाँ सहेजें।",
+
+  // ---- Cart ----
+  "cart.title": "आपका कार्ट ({count})",
+  "cart.close": "कार्ट बंद करें",
+  "cart.empty":
+    "आपका कार्ट खाली है। शुरू करने के लिए अपनी पसंद की साड़ी जोड़ें।",
+  "cart.continue": "ब्राउज़ करना जारी रखें",
+  "cart.decrease": "{name} की मात्रा घटाएँ",
+  "cart.increase": "{name} की मात्रा बढ़ाएँ",
+  "cart.remove": "{name} को कार्ट से हटाएँ",
+  "cart.totalPieces": "कुल साड़ियाँ",
+  "cart.subtotal": "उप-योग",
+  "cart.unpriced":
+    "कुछ साड़ियों की कीमत अनुरोध पर है और वे उप-योग में शामिल नहीं हैं।",
+  "cart.clear": "कार्ट खाली करें",
+
+  // ---- Checkout ----
+  "checkout.start": "ऑर्डर का अनुरोध करें",
+  "checkout.title": "आपका विवरण",
+  "checkout.intro":
+    "अपना विवरण दें, हम उपलब्धता, अंतिम कीमत और डिलीवरी की पुष्टि आपसे करेंगे।",
+  "checkout.back": "कार्ट पर वापस जाएँ",
+  "checkout.name": "नाम",
+  "checkout.phone": "फ़ोन / व्हाट्सऐप नंबर",
+  "checkout.notes": "टिप्पणी (वैकल्पिक)",
+  "checkout.notesPlaceholder":
+    "ब्लाउज़ सिलाई, डिलीवरी का शहर, कॉल करने का सही समय...",
+  "checkout.summary": { one: "{count} साड़ी", other: "{count} साड़ियाँ" },
+  "checkout.submit": "पूछताछ भेजें",
+  "checkout.sending": "भेजा जा रहा है...",
+  "checkout.whatsApp": "व्हाट्सऐप पर भेजें",
+  "checkout.error.name": "कृपया अपना नाम लिखें।",
+  "checkout.error.phoneMissing": "कृपया अपना फ़ोन नंबर लिखें।",
+  "checkout.error.phone":
+    "कृपया सही फ़ोन नंबर लिखें; भारत के बाहर का नंबर हो तो देश कोड के साथ।",
+  "checkout.error.send":
+    "हम आपकी पूछताछ नहीं भेज सके। कृपया फिर से कोशिश करें या इसे व्हाट्सऐप पर भेजें।",
+  "confirm.heading": "ऑर्डर अनुरोध",
+  "confirm.title": "पूछताछ भेज दी गई",
+  "confirm.whatsAppTitle": "व्हाट्सऐप में जारी रखें",
+  "confirm.message":
+    "धन्यवाद, {name}। हम जल्द ही {phone} पर आपसे संपर्क करेंगे।",
+  "confirm.whatsAppMessage":
+    "हमने आपके ऑर्डर अनुरोध के साथ व्हाट्सऐप खोल दिया है। हम तक पहुँचने के लिए वहाँ भेजें दबाएँ।",
+  "confirm.reference": "संदर्भ",
+  "confirm.date": "तारीख",
+  "confirm.saved": "इस पूछताछ की एक प्रति इस डिवाइस पर सहेजी गई है।",
+  "confirm.openWhatsApp": "व्हाट्सऐप फिर से खोलें",
+  "confirm.done": "हो गया",
+  "enquiry.recent": "आपकी हाल की पूछताछ",
+  "enquiry.summary": {
+    one: "{date} · {count} साड़ी",
+    other: "{date} · {count} साड़ियाँ",
+  },
+  "enquiry.message.greeting":
+    "नमस्ते साड़ी स्टूडियो, मुझे ये साड़ियाँ ऑर्डर करनी हैं:",
+  "enquiry.message.item": "{number}. {name} (आईडी: {id}) × {quantity}",
+  "enquiry.message.price": "कीमत: {price}",
+  "enquiry.message.link": "लिंक: {url}",
+  "enquiry.message.subtotal": "उप-योग: {subtotal}",
+  "enquiry.message.name": "नाम: {name}",
+  "enquiry.message.phone": "फ़ोन: {phone}",
+  "enquiry.message.notes": "टिप्पणी: {notes}",
+  "enquiry.message.reference": "संदर्भ: {reference}",
+
+  // ---- Lightbox ----
+  "lightbox.label": "{name} – चित्र {number} / {total}",
+  "lightbox.position": "{number} / {total}",
+  "lightbox.play": "स्लाइडशो चलाएँ",
+  "lightbox.pause": "स्लाइडशो रोकें",
+  "lightbox.interval": "हर स्लाइड के सेकंड",
+  "lightbox.seconds": "{seconds} से.",
+  "lightbox.loopHint": "पूरी श्रेणी में आगे बढ़ते रहें",
+  "lightbox.loop": "पूरी श्रेणी",
+  "lightbox.fullScreen": "पूरी स्क्रीन",
+  "lightbox.exitFullScreen": "पूरी स्क्रीन से बाहर निकलें",
+  "lightbox.previous": "पिछला चित्र",
+  "lightbox.next": "अगला चित्र",
+  "lightbox.zoomIn": "ज़ूम इन",
+  "lightbox.zoomOut": "ज़ूम आउट",
+  "lightbox.unavailable": "चित्र उपलब्ध नहीं है",
+  "lightbox.thumbUnavailable": "{name} (चित्र उपलब्ध नहीं है)",
+
+  // ---- Sharing ----
+  "share.title": "यह साड़ी शेयर करें",
+  "share.link": "इस साड़ी का लिंक",
+  "share.copy": "लिंक कॉपी करें",
+  "share.copied": "लिंक कॉपी हो गया",
+  "share.whatsApp": "व्हाट्सऐप",
+  "share.email": "ईमेल",
+  "share.subject": "यह साड़ी देखिए: {name}",
+  "share.photo": "फ़ोटो: {url}",
+
+  // ---- Theme ----
+  "theme.label": "रंग थीम",
+  "theme.light": "हल्की",
+  "theme.dark": "गहरी",
+  "theme.system": "सिस्टम",
+
+  // ---- Announcements ----
+  "announce.results": {
+    one: "{count} साड़ी मिली",
+    other: "{count} साड़ियाँ मिलीं",
+  },
+  "announce.noResults": "इन फ़िल्टरों से कोई साड़ी मेल नहीं खाती",
+  "announce.addedToCart": "{name} कार्ट में जोड़ी गई",
+  "announce.removedFromCart": "{name} कार्ट से हटाई गई",
+  "announce.quantity": "{name}, मात्रा {quantity}",
+  "announce.cartCleared": "कार्ट खाली कर दिया गया",
+  "announce.enquirySent": "पूछताछ {reference} भेज दी गई",
+  "announce.addedToWishlist": "{name} विशलिस्ट में जोड़ी गई",
+  "announce.removedFromWishlist": "{name} विशलिस्ट से हटाई गई",
+  "announce.saree": "साड़ी",
+
+  // ---- Image debugging ----
+  "debug.brokenImages": "टूटी तस्वीरें ({count})",
+  "debug.copyIds": "आईडी कॉपी करें",
+  "debug.noBrokenImages": "अब तक कोई तस्वीर विफल नहीं हुई।",
+  "debug.clearList": "सूची साफ़ करें",
+
+  // ---- Footer ----
+  "footer.about":
+    "प्रीमियम साड़ियों के हमारे चुनिंदा संग्रह के ज़रिए भारतीय कारीगरी की शाश्वत सुंदरता का उत्सव।",
+  "footer.privacy": "गोपनीयता नीति",
+  "footer.terms": "सेवा की शर्तें",
+  "footer.contact": "हमसे संपर्क करें",
+  "footer.copyright":
+    "© 2024 साड़ी स्टूडियो। परंपरा और सुरुचि के प्रति प्रेम से रचित।",
+};
@@ -0,0 +1,289 @@
+import type { Messages } from "@/lib/i18n";
+
+// ---------- ಕನ್ನಡ (Kannada) ----------
+
+export const kn: Messages = {
+  // ---- Brand & hero ----
+  "brand.name": "ಸೀರೆ ಸ್ಟುಡಿಯೋ",
+  "brand.tagline": "ಪ್ರೀಮಿಯಂ ಸಂಗ್ರಹ",
+  "hero.subtitle":
+    "ಸಂಪ್ರದಾಯ ಮತ್ತು ಸೊಬಗು ಸೇರುವ ತಾಣ. ಆಧುನಿಕ ಮಹಿಳೆಗಾಗಿ ರೂಪಿಸಿದ ಅಪೂರ್ವ ಸೀರೆಗಳ ನಮ್ಮ ಆಯ್ದ ಸಂಗ್ರಹವನ್ನು ನೋಡಿ.",
+  "hero.explore": "ಸಂಗ್ರಹ ನೋಡಿ",
+  "hero.catalog": "ಪ್ರೀಮಿಯಂ ಕ್ಯಾಟಲಾಗ್",
+
+  // ---- Loading & errors ----
+  "loading.title": "ಶ್ರೇಷ್ಠತೆಯನ್ನು ಆಯ್ದುಕೊಳ್ಳಲಾಗುತ್ತಿದೆ",
+  "loading.message": "ನಮ್ಮ ಪ್ರೀಮಿಯಂ ಸೀರೆ ಸಂಗ್ರಹ ತೆರೆದುಕೊಳ್ಳುತ್ತಿದೆ...",
+  "loading.retrying":
+    "ಸರ್ವರ್ ಅನ್ನು ಎಬ್ಬಿಸಲಾಗುತ್ತಿದೆ, ಪ್ರಯತ್ನ {attempt} / {attempts}...",
+  "loading.more": "ಇನ್ನಷ್ಟು ಸೀರೆಗಳು ಲೋಡ್ ಆಗುತ್ತಿವೆ...",
+  "action.tryAgain": "ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ",
+  "action.retry": "ಮರುಪ್ರಯತ್ನಿಸಿ",
+  "action.close": "ಮುಚ್ಚಿ",
+  "action.dismiss": "ತೆಗೆದುಹಾಕಿ",
+  "error.network.title": "ಕ್ಯಾಟಲಾಗ್ ತಲುಪಲು ಆಗುತ್ತಿಲ್ಲ",
+  "error.network.message":
+    "ನಮ್ಮ ಸರ್ವರ್‌ಗೆ ಸಂಪರ್ಕಿಸಲು ಆಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ನಿಮ್ಮ ಇಂಟರ್ನೆಟ್ ಸಂಪರ್ಕ ಪರಿಶೀಲಿಸಿ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+  "error.timeout.title": "ಕ್ಯಾಟಲಾಗ್ ತುಂಬಾ ಸಮಯ ತೆಗೆದುಕೊಳ್ಳುತ್ತಿದೆ",
+  "error.timeout.message":
+    "ನಮ್ಮ ಸರ್ವರ್ ಸಮಯಕ್ಕೆ ಪ್ರತಿಕ್ರಿಯಿಸಲಿಲ್ಲ. ಅದು ಇನ್ನೂ ಆರಂಭವಾಗುತ್ತಿರಬಹುದು – ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+  "error.http.title": "ಕ್ಯಾಟಲಾಗ್ ಲಭ್ಯವಿಲ್ಲ",
+  "error.http.server":
+    "ನಮ್ಮ ಸರ್ವರ್‌ನಲ್ಲಿ ಸಮಸ್ಯೆ ಉಂಟಾಗಿದೆ (ದೋಷ {status}). ದಯವಿಟ್ಟು ಸ್ವಲ್ಪ ಸಮಯದ ನಂತರ ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.",
+  "error.http.refused": "ಕ್ಯಾಟಲಾಗ್ ವಿನಂತಿಯನ್ನು ನಿರಾಕರಿಸಲಾಗಿದೆ (ದೋಷ {status}).",
+  "error.schema.title": "ಕ್ಯಾಟಲಾಗ್ ಓದಲು ಆಗಲಿಲ್ಲ",
+  "error.schema.message": {
+    one: "ಕ್ಯಾಟಲಾಗ್ ಡೇಟಾ ಅನಿರೀಕ್ಷಿತ ರೂಪದಲ್ಲಿ ಬಂದಿದೆ ({count} ಸಮಸ್ಯೆ ಕಂಡುಬಂದಿದೆ).",
+    other:
+      "ಕ್ಯಾಟಲಾಗ್ ಡೇಟಾ ಅನಿರೀಕ್ಷಿತ ರೂಪದಲ್ಲಿ ಬಂದಿದೆ ({count} ಸಮಸ್ಯೆಗಳು ಕಂಡುಬಂದಿವೆ).",
+  },
+  "error.unknown.title": "ಅಯ್ಯೋ! ಏನೋ ತಪ್ಪಾಗಿದೆ",
+  "error.unknown.message": "ಕ್ಯಾಟಲಾಗ್ ಪಡೆಯಲು ಆಗಲಿಲ್ಲ",
+  "status.offline":
+    "ನೀವು ಆಫ್‌ಲೈನ್‌ನಲ್ಲಿದ್ದೀರಿ, ಉಳಿಸಿದ ಕ್ಯಾಟಲಾಗ್ ತೋರಿಸಲಾಗುತ್ತಿದೆ.",
+  "status.offlineSince":
+    "ನೀವು ಆಫ್‌ಲೈನ್‌ನಲ್ಲಿದ್ದೀರಿ, {date} ರಂದು ಉಳಿಸಿದ ಕ್ಯಾಟಲಾಗ್ ತೋರಿಸಲಾಗುತ್ತಿದೆ.",
+  "status.stale":
+    "ಕ್ಯಾಟಲಾಗ್ ನವೀಕರಿಸಲು ಆಗಲಿಲ್ಲ, ಉಳಿಸಿದ ಪ್ರತಿಯನ್ನು ತೋರಿಸಲಾಗುತ್ತಿದೆ.",
+  "status.staleSince":
+    "ಕ್ಯಾಟಲಾಗ್ ನವೀಕರಿಸಲು ಆಗಲಿಲ್ಲ, {date} ರಂದು ಉಳಿಸಿದ ಪ್ರತಿಯನ್ನು ತೋರಿಸಲಾಗುತ್ತಿದೆ.",
+  "status.updated": "ಕ್ಯಾಟಲಾಗ್ ನವೀಕರಿಸಲಾಗಿದೆ",
+
+  // ---- Navigation ----
+  "nav.skipToCatalog": "ನೇರವಾಗಿ ಸಂಗ್ರಹಕ್ಕೆ ಹೋಗಿ",
+  "nav.main": "ಮುಖ್ಯ",
+  "nav.collection": "ಸಂಗ್ರಹ",
+  "nav.about": "ನಮ್ಮ ಬಗ್ಗೆ",
+  "nav.contact": "ಸಂಪರ್ಕ",
+  "nav.wishlist": "ವಿಶ್‌ಲಿಸ್ಟ್ ({count})",
+  "nav.cart": "ಕಾರ್ಟ್ ({count})",
+  "nav.openMenu": "ಮೆನು ತೆರೆಯಿರಿ",
+  "nav.closeMenu": "ಮೆನು ಮುಚ್ಚಿ",
+  "nav.menu": "ಮೆನು",
+  "nav.categories": "ವರ್ಗಗಳು",
+  "nav.theme": "ಥೀಮ್",
+  "nav.language": "ಭಾಷೆ",
+  "nav.allCollections": "ಎಲ್ಲಾ ಸಂಗ್ರಹಗಳು",
+
+  // ---- Search ----
+  "search.label": "ಸೀರೆಗಳನ್ನು ಹುಡುಕಿ",
+  "search.placeholder": "ಅಪೂರ್ವ ಸೀರೆಗಳು, ಸಂಗ್ರಹಗಳು ಅಥವಾ ಶೈಲಿಗಳನ್ನು ಹುಡುಕಿ...",
+  "search.suggestions": "ಹುಡುಕಾಟ ಸಲಹೆಗಳು",
+  "search.clear": "ಅಳಿಸಿ",
+  "search.group.recent": "ಇತ್ತೀಚಿನ ಹುಡುಕಾಟಗಳು",
+  "search.group.category": "ಸಂಗ್ರಹಗಳು",
+  "search.group.subfolder": "ಉಪ-ಸಂಗ್ರಹಗಳು",
+  "search.group.item": "ಸೀರೆಗಳು",
+
+  // ---- Sorting & view ----
+  "sort.label": "ವಿಂಗಡಿಸಿ",
+  "sort.featured": "ವಿಶೇಷ",
+  "sort.priceAsc": "ಬೆಲೆ: ಕಡಿಮೆಯಿಂದ ಹೆಚ್ಚು",
+  "sort.priceDesc": "ಬೆಲೆ: ಹೆಚ್ಚಿನಿಂದ ಕಡಿಮೆ",
+  "sort.name": "ಹೆಸರು",
+  "sort.newest": "ಹೊಸತು",
+  "view.grid": "ಗ್ರಿಡ್ ನೋಟ",
+  "view.list": "ಪಟ್ಟಿ ನೋಟ",
+
+  // ---- Filters ----
+  "filters.toggle": "ಫಿಲ್ಟರ್‌ಗಳು",
+  "filters.byCollection": "ಸಂಗ್ರಹದ ಪ್ರಕಾರ ಫಿಲ್ಟರ್ ಮಾಡಿ",
+  "filters.clearAll": "ಎಲ್ಲಾ ತೆರವುಗೊಳಿಸಿ",
+  "filters.active": "ಸಕ್ರಿಯ ಫಿಲ್ಟರ್‌ಗಳು:",
+  "filters.remove": "ಫಿಲ್ಟರ್ ತೆಗೆದುಹಾಕಿ: {label}",
+  "filters.value": "{label}: {value}",
+  "filters.noMatch.title": "ಈ ಫಿಲ್ಟರ್‌ಗಳಿಗೆ ಯಾವುದೇ ಸೀರೆ ಹೊಂದುತ್ತಿಲ್ಲ",
+  "filters.noMatch.message":
+    "ಒಂದು ಫಿಲ್ಟರ್ ತೆಗೆದುಹಾಕಿ ಅಥವಾ ಬೆಲೆಯ ವ್ಯಾಪ್ತಿಯನ್ನು ಹೆಚ್ಚಿಸಿ ನೋಡಿ.",
+  "filters.noMatch.action": "ಎಲ್ಲಾ ಫಿಲ್ಟರ್‌ಗಳನ್ನು ತೆರವುಗೊಳಿಸಿ",
+  "facet.fabric": "ಬಟ್ಟೆ",
+  "facet.colour": "ಬಣ್ಣ",
+  "facet.occasion": "ಸಂದರ್ಭ",
+  "facet.sarees": { one: "ಸೀರೆ", other: "ಸೀರೆಗಳು" },
+  "price.label": "ಬೆಲೆ",
+  "price.min": "ಕನಿಷ್ಠ ಬೆಲೆ",
+  "price.max": "ಗರಿಷ್ಠ ಬೆಲೆ",
+  "price.range": "{min} – {max}",
+  "price.under": "{max} ಕ್ಕಿಂತ ಕಡಿಮೆ",
+  "price.above": "{min} ಮತ್ತು ಹೆಚ್ಚು",
+  "price.any": "ಯಾವುದೇ ಬೆಲೆ",
+  "price.off": "{percent}% ರಿಯಾಯಿತಿ",
+
+  // ---- Catalog ----
+  "catalog.notFound.title": "ಆ ಪುಟ ಸಿಗಲಿಲ್ಲ",
+  "catalog.notFound.message":
+    "ನೀವು ಹುಡುಕುತ್ತಿರುವ ಸಂಗ್ರಹ ಅಥವಾ ಸೀರೆಯನ್ನು ಸ್ಥಳಾಂತರಿಸಲಾಗಿರಬಹುದು ಅಥವಾ ಈಗ ಲಭ್ಯವಿಲ್ಲ.",
+  "catalog.notFound.action": "ಸಂಗ್ರಹ ನೋಡಿ",
+  "category.badge": "{name} ಸಂಗ್ರಹ",
+  "category.description":
+    "{name} ಸೀರೆಗಳ ಅತ್ಯುತ್ತಮ ಸಂಗ್ರಹವನ್ನು ನೋಡಿ, ಪ್ರತಿಯೊಂದೂ ಕುಶಲತೆ ಮತ್ತು ಸೊಬಗಿನ ಕಥೆ ಹೇಳುತ್ತದೆ.",
+  "category.slideshow": "ಸ್ಲೈಡ್‌ಶೋ",
+  "subfolder.pieces": {
+    one: "ಈ ಸಂಗ್ರಹದಲ್ಲಿ {count} ಅಪೂರ್ವ ಸೀರೆ",
+    other: "ಈ ಸಂಗ್ರಹದಲ್ಲಿ {count} ಅಪೂರ್ವ ಸೀರೆಗಳು",
+  },
+  "subfolder.viewAll": "ಎಲ್ಲಾ ನೋಡಿ ({count})",
+  "subfolder.showLess": "ಕಡಿಮೆ ತೋರಿಸಿ",
+
+  // ---- Items ----
+  "item.view": "ನೋಡಿ",
+  "item.viewFullScreen": "ಪೂರ್ಣ ಪರದೆಯಲ್ಲಿ ನೋಡಿ",
+  "item.viewNamedFullScreen": "{name} ಅನ್ನು ಪೂರ್ಣ ಪರದೆಯಲ್ಲಿ ನೋಡಿ",
+  "item.share": "{name} ಹಂಚಿಕೊಳ್ಳಿ",
+  "item.addToWishlist": "ವಿಶ್‌ಲಿಸ್ಟ್‌ಗೆ ಸೇರಿಸಿ",
+  "item.removeFromWishlist": "ವಿಶ್‌ಲಿಸ್ಟ್‌ನಿಂದ ತೆಗೆದುಹಾಕಿ",
+  "item.addNamedToWishlist": "{name} ಅನ್ನು ವಿಶ್‌ಲಿಸ್ಟ್‌ಗೆ ಸೇರಿಸಿ",
+  "item.removeNamedFromWishlist": "{name} ಅನ್ನು ವಿಶ್‌ಲಿಸ್ಟ್‌ನಿಂದ ತೆಗೆದುಹಾಕಿ",
+  "item.addToCart": "ಕಾರ್ಟ್‌ಗೆ ಸೇರಿಸಿ",
+  "item.soldOut": "ಮಾರಾಟವಾಗಿದೆ",
+  "item.imageView": "{name} – ನೋಟ {number}",
+  "item.care": "ಆರೈಕೆಯ ಸೂಚನೆಗಳು",
+  "stock.soldOut": "ಮಾರಾಟವಾಗಿದೆ",
+  "stock.low": "ಕೇವಲ {count} ಉಳಿದಿವೆ",
+  "stock.inStock": "ಲಭ್ಯವಿದೆ",
+  "attribute.fabric": "ಬಟ್ಟೆ",
+  "attribute.colour": "ಬಣ್ಣ",
+  "attribute.occasion": "ಸಂದರ್ಭ",
+  "attribute.length": "ಉದ್ದ",
+  "attribute.blousePiece": "ಬ್ಲೌಸ್ ಪೀಸ್",
+  "attribute.included": "ಸೇರಿದೆ",
+  "attribute.notIncluded": "ಸೇರಿಲ್ಲ",
+  "attribute.metres": "{length} ಮೀ",
+
+  // ---- Wishlist ----
+  "wishlist.title": "ನನ್ನ ವಿಶ್‌ಲಿಸ್ಟ್",
+  "wishlist.saved": {
+    one: "ನಂತರಕ್ಕಾಗಿ {count} ಸೀರೆ ಉಳಿಸಲಾಗಿದೆ",
+    other: "ನಂತರಕ್ಕಾಗಿ {count} ಸೀರೆಗಳನ್ನು ಉಳಿಸಲಾಗಿದೆ",
+  },
+  "wishlist.back": "ಸಂಗ್ರಹಕ್ಕೆ ಹಿಂತಿರುಗಿ",
+  "wishlist.empty": "ಯಾವುದೇ ಸೀರೆಯ ಹೃದಯ ಚಿಹ್ನೆ ಒತ್ತಿ ಅದನ್ನು ಇಲ್ಲಿ ಉಳಿಸಿ.",
+
+  // ---- Cart ----
+  "cart.title": "ನಿಮ್ಮ ಕಾರ್ಟ್ ({count})",
+  "cart.close": "ಕಾರ್ಟ್ ಮುಚ್ಚಿ",
+  "cart.empty":
+    "ನಿಮ್ಮ ಕಾರ್ಟ್ ಖಾಲಿಯಾಗಿದೆ. ಪ್ರಾರಂಭಿಸಲು ನಿಮಗಿಷ್ಟವಾದ ಸೀರೆಯನ್ನು ಸೇರಿಸಿ.",
+  "cart.continue": "ಬ್ರೌಸಿಂಗ್ ಮುಂದುವರಿಸಿ",
+  "cart.decrease": "{name} ಪ್ರಮಾಣ ಕಡಿಮೆ ಮಾಡಿ",
+  "cart.increase": "{name} ಪ್ರಮಾಣ ಹೆಚ್ಚಿಸಿ",
+  "cart.remove": "{name} ಅನ್ನು ಕಾರ್ಟ್‌ನಿಂದ ತೆಗೆದುಹಾಕಿ",
+  "cart.totalPieces": "ಒಟ್ಟು ಸೀರೆಗಳು",
+  "cart.subtotal": "ಉಪಮೊತ್ತ",
+  "cart.unpriced":
+    "ಕೆಲವು ಸೀರೆಗಳ ಬೆಲೆ ವಿನಂತಿಯ ಮೇರೆಗೆ ಇದೆ ಮತ್ತು ಅವು ಉಪಮೊತ್ತದಲ್ಲಿ ಸೇರಿಲ್ಲ.",
+  "cart.clear": "ಕಾರ್ಟ್ ಖಾಲಿ ಮಾಡಿ",
+
+  // ---- Checkout ----
+  "checkout.start": "ಆರ್ಡರ್‌ಗೆ ವಿನಂತಿಸಿ",
+  "checkout.title": "ನಿಮ್ಮ ವಿವರಗಳು",
+  "checkout.intro":
+    "ನಿಮ್ಮ ವಿವರಗಳನ್ನು ನೀಡಿ, ಲಭ್ಯತೆ, ಅಂತಿಮ ಬೆಲೆ ಮತ್ತು ವಿತರಣೆಯನ್ನು ನಾವು ನಿಮ್ಮೊಂದಿಗೆ ಖಚಿತಪಡಿಸುತ್ತೇವೆ.",
+  "checkout.back": "ಕಾರ್ಟ್‌ಗೆ ಹಿಂತಿರುಗಿ",
+  "checkout.name": "ಹೆಸರು",
+  "checkout.phone": "ಫೋನ್ / ವಾಟ್ಸ್‌ಆ್ಯಪ್ ಸಂಖ್ಯೆ",
+  "checkout.notes": "ಟಿಪ್ಪಣಿ (ಐಚ್ಛಿಕ)",
+  "checkout.notesPlaceholder":
+    "ಬ್ಲೌಸ್ ಹೊಲಿಗೆ, ವಿತರಣೆಯ ನಗರ, ಕರೆ ಮಾಡಲು ಸೂಕ್ತ ಸಮಯ...",
+  "checkout.summary": { one: "{count} ಸೀರೆ", other: "{count} ಸೀರೆಗಳು" },
+  "checkout.submit": "ವಿಚಾರಣೆ ಕಳುಹಿಸಿ",
+  "checkout.sending": "ಕಳುಹಿಸಲಾಗುತ್ತಿದೆ...",
+  "checkout.whatsApp": "ವಾಟ್ಸ್‌ಆ್ಯಪ್‌ನಲ್ಲಿ ಕಳುಹಿಸಿ",
+  "checkout.error.name": "ದಯವಿಟ್ಟು ನಿಮ್ಮ ಹೆಸರನ್ನು ನಮೂದಿಸಿ.",
+  "checkout.error.phoneMissing": "ದಯವಿಟ್ಟು ನಿಮ್ಮ ಫೋನ್ ಸಂಖ್ಯೆಯನ್ನು ನಮೂದಿಸಿ.",
+  "checkout.error.phone":
+    "ದಯವಿಟ್ಟು ಸರಿಯಾದ ಫೋನ್ ಸಂಖ್ಯೆಯನ್ನು ನಮೂದಿಸಿ; ಭಾರತದ ಹೊರಗಿನ ಸಂಖ್ಯೆಯಾದರೆ ದೇಶದ ಕೋಡ್‌ನೊಂದಿಗೆ.",
+  "checkout.error.send":
+    "ನಿಮ್ಮ ವಿಚಾರಣೆಯನ್ನು ಕಳುಹಿಸಲಾಗಲಿಲ್ಲ. ದಯವಿಟ್ಟು ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ ಅಥವಾ ವಾಟ್ಸ್‌ಆ್ಯಪ್‌ನಲ್ಲಿ ಕಳುಹಿಸಿ.",
+  "confirm.heading": "ಆರ್ಡರ್ ವಿನಂತಿ",
+  "confirm.title": "ವಿಚಾರಣೆ ಕಳುಹಿಸಲಾಗಿದೆ",
+  "confirm.whatsAppTitle": "ವಾಟ್ಸ್‌ಆ್ಯಪ್‌ನಲ್ಲಿ ಮುಂದುವರಿಸಿ",
+  "confirm.message":
+    "ಧನ್ಯವಾದಗಳು, {name}. ನಾವು ಶೀಘ್ರದಲ್ಲೇ {phone} ಗೆ ನಿಮ್ಮನ್ನು ಸಂಪರ್ಕಿಸುತ್ತೇವೆ.",
+  "confirm.whatsAppMessage":
+    "ನಿಮ್ಮ ಆರ್ಡರ್ ವಿನಂತಿಯೊಂದಿಗೆ ವಾಟ್ಸ್‌ಆ್ಯಪ್ ತೆರೆಯಲಾಗಿದೆ. ನಮ್ಮನ್ನು ತಲುಪಲು ಅಲ್ಲಿ ಕಳುಹಿಸಿ ಒತ್ತಿ.",
+  "confirm.reference": "ಉಲ್ಲೇಖ",
+  "confirm.date": "ದಿನಾಂಕ",
+  "confirm.saved": "ಈ ವಿಚಾರಣೆಯ ಒಂದು ಪ್ರತಿಯನ್ನು ಈ ಸಾಧನದಲ್ಲಿ ಉಳಿಸಲಾಗಿದೆ.",
+  "confirm.openWhatsApp": "ವಾಟ್ಸ್‌ಆ್ಯಪ್ ಮತ್ತೆ ತೆರೆಯಿರಿ",
+  "confirm.done": "ಮುಗಿದಿದೆ",
+  "enquiry.recent": "ನಿಮ್ಮ ಇತ್ತೀಚಿನ ವಿಚಾರಣೆಗಳು",
+  "enquiry.summary": {
+    one: "{date} · {count} ಸೀರೆ",
+    other: "{date} · {count} ಸೀರೆಗಳು",
+  },
+  "enquiry.message.greeting":
+    "ನಮಸ್ಕಾರ ಸೀರೆ ಸ್ಟುಡಿಯೋ, ನಾನು ಈ ಸೀರೆಗಳನ್ನು ಆರ್ಡರ್ ಮಾಡಲು ಬಯಸುತ್ತೇನೆ:",
+  "enquiry.message.item": "{number}. {name} (ಐಡಿ: {id}) × {quantity}",
+  "enquiry.message.price": "ಬೆಲೆ: {price}",
+  "enquiry.message.link": "ಲಿಂಕ್: {url}",
+  "enquiry.message.subtotal": "ಉಪಮೊತ್ತ: {subtotal}",
+  "enquiry.message.name": "ಹೆಸರು: {name}",
+  "enquiry.message.phone": "ಫೋನ್: {phone}",
+  "enquiry.message.notes": "ಟಿಪ್ಪಣಿ: {notes}",
+  "enquiry.message.reference": "ಉಲ್ಲೇಖ: {reference}",
+
+  // ---- Lightbox ----
+  "lightbox.label": "{name} – ಚಿತ್ರ {number} / {total}",
+  "lightbox.position": "{number} / {total}",
+  "lightbox.play": "ಸ್ಲೈಡ್‌ಶೋ ಆರಂಭಿಸಿ",
+  "lightbox.pause": "ಸ್ಲೈಡ್‌ಶೋ ನಿಲ್ಲಿಸಿ",
+  "lightbox.interval": "ಪ್ರತಿ ಸ್ಲೈಡ್‌ಗೆ ಸೆಕೆಂಡುಗಳು",
+  "lightbox.seconds": "{seconds} ಸೆ",
+  "lightbox.loopHint": "ಇಡೀ ವರ್ಗದಲ್ಲಿ ಮುಂದುವರಿಯಿರಿ",
+  "lightbox.loop": "ಇಡೀ ವರ್ಗ",
+  "lightbox.fullScreen": "ಪೂರ್ಣ ಪರದೆ",
+  "lightbox.exitFullScreen": "ಪೂರ್ಣ ಪರದೆಯಿಂದ ನಿರ್ಗಮಿಸಿ",
+  "lightbox.previous": "ಹಿಂದಿನ ಚಿತ್ರ",
+  "lightbox.next": "ಮುಂದಿನ ಚಿತ್ರ",
+  "lightbox.zoomIn": "ಹಿಗ್ಗಿಸಿ",
+  "lightbox.zoomOut": "ಕುಗ್ಗಿಸಿ",
+  "lightbox.unavailable": "ಚಿತ್ರ ಲಭ್ಯವಿಲ್ಲ",
+  "lightbox.thumbUnavailable": "{name} (ಚಿತ್ರ ಲಭ್ಯವಿಲ್ಲ)",
+
+  // ---- Sharing ----
+  "share.title": "ಈ ಸೀರೆಯನ್ನು ಹಂಚಿಕೊಳ್ಳಿ",
+  "share.link": "ಈ ಸೀರೆಯ ಲಿಂಕ್",
+  "share.copy": "ಲಿಂಕ್ ನಕಲಿಸಿ",
+  "share.copied": "ಲಿಂಕ್ ನಕಲಿಸಲಾಗಿದೆ",
+  "share.whatsApp": "ವಾಟ್ಸ್‌ಆ್ಯಪ್",
+  "share.email": "ಇಮೇಲ್",
+  "share.subject": "ಈ ಸೀರೆಯನ್ನು ನೋಡಿ: {name}",
+  "share.photo": "ಫೋಟೋ: {url}",
+
+  // ---- Theme ----
+  "theme.label": "ಬಣ್ಣದ ಥೀಮ್",
+  "theme.light": "ತಿಳಿ",
+  "theme.dark": "ಗಾಢ",
+  "theme.system": "ಸಿಸ್ಟಂ",
+
+  // ---- Announcements ----
+  "announce.results": {
+    one: "{count} ಸೀರೆ ಸಿಕ್ಕಿದೆ",
+    other: "{count} ಸೀರೆಗಳು ಸಿಕ್ಕಿವೆ",
+  },
+  "announce.noResults": "ಈ ಫಿಲ್ಟರ್‌ಗಳಿಗೆ ಯಾವುದೇ ಸೀರೆ ಹೊಂದುತ್ತಿಲ್ಲ",
+  "announce.addedToCart": "{name} ಕಾರ್ಟ್‌ಗೆ ಸೇರಿಸಲಾಗಿದೆ",
+  "announce.removedFromCart": "{name} ಕಾರ್ಟ್‌ನಿಂದ ತೆಗೆದುಹಾಕಲಾಗಿದೆ",
+  "announce.quantity": "{name}, ಪ್ರಮಾಣ {quantity}",
+  "announce.cartCleared": "ಕಾರ್ಟ್ ಖಾಲಿ ಮಾಡಲಾಗಿದೆ",
+  "announce.enquirySent": "ವಿಚಾರಣೆ {reference} ಕಳುಹಿಸಲಾಗಿದೆ",
+  "announce.addedToWishlist": "{name} ವಿಶ್‌ಲಿಸ್ಟ್‌ಗೆ ಸೇರಿಸಲಾಗಿದೆ",
+  "announce.removedFromWishlist": "{name} ವಿಶ್‌ಲಿಸ್ಟ್‌ನಿಂದ ತೆಗೆದುಹಾಕಲಾಗಿದೆ",
+  "announce.saree": "ಸೀರೆ",
+
+  // ---- Image debugging ----
+  "debug.brokenImages": "ತೆರೆಯದ ಚಿತ್ರಗಳು ({count})",
+  "debug.copyIds": "ಐಡಿಗಳನ್ನು ನಕಲಿಸಿ",
+  "debug.noBrokenImages": "ಇಲ್ಲಿಯವರೆಗೆ ಯಾವುದೇ ಚಿತ್ರ ವಿಫಲವಾಗಿಲ್ಲ.",
+  "debug.clearList": "ಪಟ್ಟಿ ಅಳಿಸಿ",
+
+  // ---- Footer ----
+  "footer.about":
+    "ಪ್ರೀಮಿಯಂ ಸೀರೆಗಳ ನಮ್ಮ ಆಯ್ದ ಸಂಗ್ರಹದ ಮೂಲಕ ಭಾರತೀಯ ಕುಶಲಕಲೆಯ ಕಾಲಾತೀತ ಸೌಂದರ್ಯದ ಸಂಭ್ರಮ.",
+  "footer.privacy": "ಗೌಪ್ಯತಾ ನೀತಿ",
+  "footer.terms": "ಸೇವಾ ನಿಯಮಗಳು",
+  "footer.contact": "ನಮ್ಮನ್ನು ಸಂಪರ್ಕಿಸಿ",
+  "footer.copyright":
+    "© 2024 ಸೀರೆ ಸ್ಟುಡಿಯೋ. ಸಂಪ್ರದಾಯ ಮತ್ತು ಸೊಬಗಿನ ಮೇಲಿನ ಪ್ರೀತಿಯಿಂದ ರೂಪಿಸಲಾಗಿದೆ.",
+};
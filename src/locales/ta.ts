@@ -0,0 +1,290 @@
+import type { Messages } from "@/lib/i18n";
+
+// ---------- தமிழ் (Tamil) ----------
+
+export const ta: Messages = {
+  // ---- Brand & hero ----
+  "brand.name": "சேலை ஸ்டுடியோ",
+  "brand.tagline": "பிரீமியம் தொகுப்பு",
+  "hero.subtitle":
+    "பாரம்பரியமும் நேர்த்தியும் சந்திக்கும் இடம். நவீனப் பெண்ணுக்காக உருவாக்கப்பட்ட அழகிய சேலைகளின் எங்கள் தேர்ந்தெடுத்த தொகுப்பைக் காணுங்கள்.",
+  "hero.explore": "தொகுப்பைக் காண்க",
+  "hero.catalog": "பிரீமியம் பட்டியல்",
+
+  // ---- Loading & errors ----
+  "loading.title": "சிறந்தவற்றைத் தேர்ந்தெடுக்கிறோம்",
+  "loading.message": "எங்கள் பிரீமியம் சேலைத் தொகுப்பு திறக்கிறது...",
+  "loading.retrying": "சர்வரை எழுப்புகிறோம், முயற்சி {attempt} / {attempts}...",
+  "loading.more": "மேலும் சேலைகள் ஏற்றப்படுகின்றன...",
+  "action.tryAgain": "மீண்டும் முயலவும்",
+  "action.retry": "மீண்டும் முயல்க",
+  "action.close": "மூடு",
+  "action.dismiss": "நீக்கு",
+  "error.network.title": "பட்டியலை அணுக முடியவில்லை",
+  "error.network.message":
+    "எங்கள் சர்வருடன் இணைக்க முடியவில்லை. உங்கள் இணைய இணைப்பைச் சரிபார்த்து மீண்டும் முயலவும்.",
+  "error.timeout.title": "பட்டியல் ஏற அதிக நேரம் ஆகிறது",
+  "error.timeout.message":
+    "எங்கள் சர்வர் உரிய நேரத்தில் பதிலளிக்கவில்லை. அது இன்னும் தொடங்கிக்கொண்டிருக்கலாம் – மீண்டும் முயலவும்.",
+  "error.http.title": "பட்டியல் கிடைக்கவில்லை",
+  "error.http.server":
+    "எங்கள் சர்வரில் சிக்கல் ஏற்பட்டது (பிழை {status}). சிறிது நேரத்தில் மீண்டும் முயலவும்.",
+  "error.http.refused": "பட்டியல் கோரிக்கை மறுக்கப்பட்டது (பிழை {status}).",
+  "error.schema.title": "பட்டியலைப் படிக்க முடியவில்லை",
+  "error.schema.message": {
+    one: "பட்டியல் தரவு எதிர்பாராத வடிவில் வந்துள்ளது ({count} சிக்கல் கண்டறியப்பட்டது).",
+    other:
+      "பட்டியல் தரவு எதிர்பாராத வடிவில் வந்துள்ளது ({count} சிக்கல்கள் கண்டறியப்பட்டன).",
+  },
+  "error.unknown.title": "அச்சச்சோ! ஏதோ தவறு நடந்துவிட்டது",
+  "error.unknown.message": "பட்டியலைப் பெற முடியவில்லை",
+  "status.offline":
+    "நீங்கள் ஆஃப்லைனில் உள்ளீர்கள், சேமித்த பட்டியல் காட்டப்படுகிறது.",
+  "status.offlineSince":
+    "நீங்கள் ஆஃப்லைனில் உள்ளீர்கள், {date} அன்று சேமித்த பட்டியல் காட்டப்படுகிறது.",
+  "status.stale":
+    "பட்டியலைப் புதுப்பிக்க முடியவில்லை, சேமித்த நகல் காட்டப்படுகிறது.",
+  "status.staleSince":
+    "பட்டியலைப் புதுப்பிக்க முடியவில்லை, {date} அன்று சேமித்த நகல் காட்டப்படுகிறது.",
+  "status.updated": "பட்டியல் புதுப்பிக்கப்பட்டது",
+
+  // ---- Navigation ----
+  "nav.skipToCatalog": "நேரடியாகத் தொகுப்புக்குச் செல்க",
+  "nav.main": "முதன்மை",
+  "nav.collection": "தொகுப்பு",
+  "nav.about": "எங்களைப் பற்றி",
+  "nav.contact": "தொடர்புக்கு",
+  "nav.wishlist": "விருப்பப்பட்டியல் ({count})",
+  "nav.cart": "கூடை ({count})",
+  "nav.openMenu": "மெனுவைத் திற",
+  "nav.closeMenu": "மெனுவை மூடு",
+  "nav.menu": "மெனு",
+  "nav.categories": "வகைகள்",
+  "nav.theme": "தீம்",
+  "nav.language": "மொழி",
+  "nav.allCollections": "அனைத்துத் தொகுப்புகளும்",
+
+  // ---- Search ----
+  "search.label": "சேலைகளைத் தேடுக",
+  "search.placeholder": "அழகிய சேலைகள், தொகுப்புகள் அல்லது பாணிகளைத் தேடுக...",
+  "search.suggestions": "தேடல் பரிந்துரைகள்",
+  "search.clear": "அழி",
+  "search.group.recent": "சமீபத்திய தேடல்கள்",
+  "search.group.category": "தொகுப்புகள்",
+  "search.group.subfolder": "துணைத் தொகுப்புகள்",
+  "search.group.item": "சேலைகள்",
+
+  // ---- Sorting & view ----
+  "sort.label": "வரிசைப்படுத்து",
+  "sort.featured": "சிறப்பு",
+  "sort.priceAsc": "விலை: குறைவு முதல் அதிகம்",
+  "sort.priceDesc": "விலை: அதிகம் முதல் குறைவு",
+  "sort.name": "பெயர்",
+  "sort.newest": "புதியவை",
+  "view.grid": "கட்டக் காட்சி",
+  "view.list": "பட்டியல் காட்சி",
+
+  // ---- Filters ----
+  "filters.toggle": "வடிகட்டிகள்",
+  "filters.byCollection": "தொகுப்பு வாரியாக வடிகட்டு",
+  "filters.clearAll": "அனைத்தையும் அழி",
+  "filters.active": "செயலில் உள்ள வடிகட்டிகள்:",
+  "filters.remove": "வடிகட்டியை நீக்கு: {label}",
+  "filters.value": "{label}: {value}",
+  "filters.noMatch.title": "இந்த வடிகட்டிகளுக்குப் பொருந்தும் சேலை இல்லை",
+  "filters.noMatch.message":
+    "ஒரு வடிகட்டியை நீக்கவோ விலை வரம்பை விரிவாக்கவோ முயலுங்கள்.",
+  "filters.noMatch.action": "அனைத்து வடிகட்டிகளையும் அழி",
+  "facet.fabric": "துணி",
+  "facet.colour": "நிறம்",
+  "facet.occasion": "நிகழ்வு",
+  "facet.sarees": { one: "சேலை", other: "சேலைகள்" },
+  "price.label": "விலை",
+  "price.min": "குறைந்தபட்ச விலை",
+  "price.max": "அதிகபட்ச விலை",
+  "price.range": "{min} – {max}",
+  "price.under": "{max}க்குக் கீழ்",
+  "price.above": "{min} மற்றும் அதற்கு மேல்",
+  "price.any": "எந்த விலையும்",
+  "price.off": "{percent}% தள்ளுபடி",
+
+  // ---- Catalog ----
+  "catalog.notFound.title": "அந்தப் பக்கம் கிடைக்கவில்லை",
+  "catalog.notFound.message":
+    "நீங்கள் தேடும் தொகுப்பு அல்லது சேலை இடம் மாற்றப்பட்டிருக்கலாம் அல்லது இனி கிடைக்காமல் இருக்கலாம்.",
+  "catalog.notFound.action": "தொகுப்பைக் காண்க",
+  "category.badge": "{name} தொகுப்பு",
+  "category.description":
+    "{name} சேலைகளின் சிறந்த தொகுப்பைக் காணுங்கள்; ஒவ்வொன்றும் கைவினைத்திறனும் நேர்த்தியும் நிறைந்த கதை சொல்கிறது.",
+  "category.slideshow": "ஸ்லைடுஷோ",
+  "subfolder.pieces": {
+    one: "இந்தத் தொகுப்பில் {count} அழகிய சேலை",
+    other: "இந்தத் தொகுப்பில் {count} அழகிய சேலைகள்",
+  },
+  "subfolder.viewAll": "அனைத்தையும் காண்க ({count})",
+  "subfolder.showLess": "குறைவாகக் காட்டு",
+
+  // ---- Items ----
+  "item.view": "காண்க",
+  "item.viewFullScreen": "முழுத் திரையில் காண்க",
+  "item.viewNamedFullScreen": "{name} முழுத் திரையில் காண்க",
+  "item.share": "{name} பகிர்க",
+  "item.addToWishlist": "விருப்பப்பட்டியலில் சேர்",
+  "item.removeFromWishlist": "விருப்பப்பட்டியலிலிருந்து நீக்கு",
+  "item.addNamedToWishlist": "{name} விருப்பப்பட்டியலில் சேர்",
+  "item.removeNamedFromWishlist": "{name} விருப்பப்பட்டியலிலிருந்து நீக்கு",
+  "item.addToCart": "கூடையில் சேர்",
+  "item.soldOut": "விற்றுத் தீர்ந்தது",
+  "item.imageView": "{name} – காட்சி {number}",
+  "item.care": "பராமரிப்பு வழிமுறைகள்",
+  "stock.soldOut": "விற்றுத் தீர்ந்தது",
+  "stock.low": "{count} மட்டுமே உள்ளன",
+  "stock.inStock": "கையிருப்பில் உள்ளது",
+  "attribute.fabric": "துணி",
+  "attribute.colour": "நிறம்",
+  "attribute.occasion": "நிகழ்வு",
+  "attribute.length": "நீளம்",
+  "attribute.blousePiece": "ரவிக்கைத் துணி",
+  "attribute.included": "சேர்க்கப்பட்டுள்ளது",
+  "attribute.notIncluded": "சேர்க்கப்படவில்லை",
+  "attribute.metres": "{length} மீ",
+
+  // ---- Wishlist ----
+  "wishlist.title": "என் விருப்பப்பட்டியல்",
+  "wishlist.saved": {
+    one: "பின்னர் பார்க்க {count} சேலை சேமிக்கப்பட்டது",
+    other: "பின்னர் பார்க்க {count} சேலைகள் சேமிக்கப்பட்டன",
+  },
+  "wishlist.back": "தொகுப்புக்குத் திரும்பு",
+  "wishlist.empty": "எந்தச் சேலையின் இதயக் குறியையும் தட்டி இங்கே சேமியுங்கள்.",
+
+  // ---- Cart ----
+  "cart.title": "உங்கள் கூடை ({count})",
+  "cart.close": "கூடையை மூடு",
+  "cart.empty":
+    "உங்கள் கூடை காலியாக உள்ளது. தொடங்க உங்களுக்குப் பிடித்த சேலையைச் சேருங்கள்.",
+  "cart.continue": "தொடர்ந்து பாருங்கள்",
+  "cart.decrease": "{name} அளவைக் குறை",
+  "cart.increase": "{name} அளவைக் கூட்டு",
+  "cart.remove": "{name} கூடையிலிருந்து நீக்கு",
+  "cart.totalPieces": "மொத்தச் சேலைகள்",
+  "cart.subtotal": "கூட்டுத்தொகை",
+  "cart.unpriced":
+    "சில சேலைகளின் விலை கோரிக்கையின் பேரில் மட்டுமே; அவை கூட்டுத்தொகையில் சேர்க்கப்படவில்லை.",
+  "cart.clear": "கூடையைக் காலி செய்",
+
+  // ---- Checkout ----
+  "checkout.start": "ஆர்டருக்குக் கோருங்கள்",
+  "checkout.title": "உங்கள் விவரங்கள்",
+  "checkout.intro":
+    "உங்கள் விவரங்களைப் பகிருங்கள்; இருப்பு, இறுதி விலை மற்றும் டெலிவரியை உங்களுடன் உறுதிசெய்வோம்.",
+  "checkout.back": "கூடைக்குத் திரும்பு",
+  "checkout.name": "பெயர்",
+  "checkout.phone": "தொலைபேசி / வாட்ஸ்அப் எண்",
+  "checkout.notes": "குறிப்புகள் (விருப்பத்தேர்வு)",
+  "checkout.notesPlaceholder":
+    "ரவிக்கை தையல், டெலிவரி நகரம், அழைக்க ஏற்ற நேரம்...",
+  "checkout.summary": { one: "{count} சேலை", other: "{count} சேலைகள்" },
+  "checkout.submit": "விசாரணையை அனுப்பு",
+  "checkout.sending": "அனுப்பப்படுகிறது...",
+  "checkout.whatsApp": "வாட்ஸ்அப்பில் அனுப்பு",
+  "checkout.error.name": "உங்கள் பெயரை உள்ளிடவும்.",
+  "checkout.error.phoneMissing": "உங்கள் தொலைபேசி எண்ணை உள்ளிடவும்.",
+  "checkout.error.phone":
+    "சரியான தொலைபேசி எண்ணை உள்ளிடவும்; இந்தியாவுக்கு வெளியே உள்ள எண் என்றால் நாட்டுக் குறியீட்டுடன்.",
+  "checkout.error.send":
+    "உங்கள் விசாரணையை அனுப்ப முடியவில்லை. மீண்டும் முயலவும் அல்லது வாட்ஸ்அப்பில் அனுப்பவும்.",
+  "confirm.heading": "ஆர்டர் கோரிக்கை",
+  "confirm.title": "விசாரணை அனுப்பப்பட்டது",
+  "confirm.whatsAppTitle": "வாட்ஸ்அப்பில் தொடருங்கள்",
+  "confirm.message":
+    "நன்றி, {name}. விரைவில் {phone} எண்ணில் உங்களைத் தொடர்புகொள்வோம்.",
+  "confirm.whatsAppMessage":
+    "உங்கள் ஆர்டர் கோரிக்கையுடன் வாட்ஸ்அப்பைத் திறந்துள்ளோம். எங்களை அடைய அங்கே அனுப்பு என்பதை அழுத்துங்கள்.",
+  "confirm.reference": "குறிப்பு எண்",
+  "confirm.date": "தேதி",
+  "confirm.saved":
+    "இந்த விசாரணையின் நகல் இந்தச் சாதனத்தில் சேமிக்கப்பட்டுள்ளது.",
+  "confirm.openWhatsApp": "வாட்ஸ்அப்பை மீண்டும் திற",
+  "confirm.done": "முடிந்தது",
+  "enquiry.recent": "உங்கள் சமீபத்திய விசாரணைகள்",
+  "enquiry.summary": {
+    one: "{date} · {count} சேலை",
+    other: "{date} · {count} சேலைகள்",
+  },
+  "enquiry.message.greeting":
+    "வணக்கம் சேலை ஸ்டுடியோ, இந்தச் சேலைகளை ஆர்டர் செய்ய விரும்புகிறேன்:",
+  "enquiry.message.item": "{number}. {name} (ஐடி: {id}) × {quantity}",
+  "enquiry.message.price": "விலை: {price}",
+  "enquiry.message.link": "இணைப்பு: {url}",
+  "enquiry.message.subtotal": "கூட்டுத்தொகை: {subtotal}",
+  "enquiry.message.name": "பெயர்: {name}",
+  "enquiry.message.phone": "தொலைபேசி: {phone}",
+  "enquiry.message.notes": "குறிப்புகள்: {notes}",
+  "enquiry.message.reference": "குறிப்பு எண்: {reference}",
+
+  // ---- Lightbox ----
+  "lightbox.label": "{name} – படம் {number} / {total}",
+  "lightbox.position": "{number} / {total}",
+  "lightbox.play": "ஸ்லைடுஷோவைத் தொடங்கு",
+  "lightbox.pause": "ஸ்லைடுஷோவை இடைநிறுத்து",
+  "lightbox.interval": "ஒவ்வொரு படத்துக்கும் விநாடிகள்",
+  "lightbox.seconds": "{seconds} வி",
+  "lightbox.loopHint": "முழு வகையிலும் தொடர்ந்து செல்",
+  "lightbox.loop": "முழு வகை",
+  "lightbox.fullScreen": "முழுத் திரை",
+  "lightbox.exitFullScreen": "முழுத் திரையிலிருந்து வெளியேறு",
+  "lightbox.previous": "முந்தைய படம்",
+  "lightbox.next": "அடுத்த படம்",
+  "lightbox.zoomIn": "பெரிதாக்கு",
+  "lightbox.zoomOut": "சிறிதாக்கு",
+  "lightbox.unavailable": "படம் கிடைக்கவில்லை",
+  "lightbox.thumbUnavailable": "{name} (படம் கிடைக்கவில்லை)",
+
+  // ---- Sharing ----
+  "share.title": "இந்தச் சேலையைப் பகிர்க",
+  "share.link": "இந்தச் சேலையின் இணைப்பு",
+  "share.copy": "இணைப்பை நகலெடு",
+  "share.copied": "இணைப்பு நகலெடுக்கப்பட்டது",
+  "share.whatsApp": "வாட்ஸ்அப்",
+  "share.email": "மின்னஞ்சல்",
+  "share.subject": "இந்தச் சேலையைப் பாருங்கள்: {name}",
+  "share.photo": "புகைப்படம்: {url}",
+
+  // ---- Theme ----
+  "theme.label": "வண்ணத் தீம்",
+  "theme.light": "வெளிர்",
+  "theme.dark": "இருள்",
+  "theme.system": "கணினி",
+
+  // ---- Announcements ----
+  "announce.results": {
+    one: "{count} சேலை கிடைத்தது",
+    other: "{count} சேலைகள் கிடைத்தன",
+  },
+  "announce.noResults": "இந்த வடிகட்டிகளுக்குப் பொருந்தும் சேலை இல்லை",
+  "announce.addedToCart": "{name} கூடையில் சேர்க்கப்பட்டது",
+  "announce.removedFromCart": "{name} கூடையிலிருந்து நீக்கப்பட்டது",
+  "announce.quantity": "{name}, அளவு {quantity}",
+  "announce.cartCleared": "கூடை காலி செய்யப்பட்டது",
+  "announce.enquirySent": "விசாரணை {reference} அனுப்பப்பட்டது",
+  "announce.addedToWishlist": "{name} விருப்பப்பட்டியலில் சேர்க்கப்பட்டது",
+  "announce.removedFromWishlist":
+    "{name} விருப்பப்பட்டியலிலிருந்து நீக்கப்பட்டது",
+  "announce.saree": "சேலை",
+
+  // ---- Image debugging ----
+  "debug.brokenImages": "திறக்காத படங்கள் ({count})",
+  "debug.copyIds": "ஐடிகளை நகலெடு",
+  "debug.noBrokenImages": "இதுவரை எந்தப் படமும் தோல்வியடையவில்லை.",
+  "debug.clearList": "பட்டியலை அழி",
+
+  // ---- Footer ----
+  "footer.about":
+    "பிரீமியம் சேலைகளின் எங்கள் தேர்ந்தெடுத்த தொகுப்பின் வழியே இந்தியக் கைவினையின் காலத்தால் அழியாத அழகைக் கொண்டாடுகிறோம்.",
+  "footer.privacy": "தனியுரிமைக் கொள்கை",
+  "footer.terms": "சேவை விதிமுறைகள்",
+  "footer.contact": "எங்களைத் தொடர்புகொள்ள",
+  "footer.copyright":
+    "© 2024 சேலை ஸ்டுடியோ. பாரம்பரியம் மற்றும் நேர்த்தியின் மீதான அன்புடன் உருவாக்கப்பட்டது.",
+};
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fireEvent, render, screen, within } from "@testing-library/react";
+import App from "@/App";
+import { COTTON_SAREE, SILK_SAREE } from "@/test/fixtures";
+
+const CATALOG_RESPONSE = [
+  {
+    id: "silk",
+    name: "Silk",
+    subfolders: [
+      {
+        id: "kanjivaram",
+        name: "Kanjivaram",
+        preview: [SILK_SAREE],
+        all: [SILK_SAREE],
+      },
+    ],
+  },
+  {
+    id: "cotton",
+    name: "Cotton",
+    subfolders: [
+      {
+        id: "chanderi",
+        name: "Chanderi",
+        preview: [COTTON_SAREE],
+        all: [COTTON_SAREE],
+      },
+    ],
+  },
+];
+
+/** The page-wide polite live region (see LiveAnnouncer). */
+function liveRegion() {
+  return screen
+    .getAllByRole("status")
+    .find((el) => el.getAttribute("aria-live") === "polite")!;
+}
+
+/** What the live region says, minus the no-break space repeats alternate. */
+function announcement() {
+  return liveRegion().textContent?.trim();
+}
+
+async function renderCatalog() {
+  render(<App />);
+  await screen.findAllByText(SILK_SAREE.name);
+}
+
+beforeEach(() => {
+  // Filters live in the URL, so start every test from a clean one.
+  window.history.replaceState(null, "", "/");
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(
+      async () =>
+        new Response(JSON.stringify(CATALOG_RESPONSE), {
+          headers: { "Content-Type": "application/json" },
+        })
+    )
+  );
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("SareeCatalog announcements", () => {
+  it("announces the result count when the search changes", async () => {
+    await renderCatalog();
+    fireEvent.change(screen.getByRole("combobox", { name: "Search sarees" }), {
+      target: { value: "chanderi" },
+    });
+    await within(liveRegion()).findByText("1 saree found");
+
+    fireEvent.change(screen.getByRole("combobox", { name: "Search sarees" }), {
+      target: { value: "organza" },
+    });
+    await within(liveRegion()).findByText("No sarees match these filters");
+  });
+
+  it("announces pieces added to, changed in and removed from the cart", async () => {
+    await renderCatalog();
+    fireEvent.click(screen.getAllByRole("button", { name: "Add to Cart" })[0]);
+    expect(announcement()).toBe(`${SILK_SAREE.name} added to cart`);
+
+    fireEvent.click(screen.getByRole("button", { name: /^Cart/ }));
+    const cart = await screen.findByRole("dialog");
+    fireEvent.click(
+      within(cart).getByRole("button", {
+        name: `Increase quantity of ${SILK_SAREE.name}`,
+      })
+    );
+    expect(announcement()).toBe(`${SILK_SAREE.name}, quantity 2`);
+
+    fireEvent.click(
+      within(cart).getByRole("button", {
+        name: `Remove ${SILK_SAREE.name} from cart`,
+      })
+    );
+    expect(announcement()).toBe(`${SILK_SAREE.name} removed from cart`);
+  });
+});
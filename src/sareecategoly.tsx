@@ -1,15 +1,13 @@
 "use client";
 
-import { useEffect, useState, useMemo, useRef } from "react";
+import { useCallback, useEffect, useState, useMemo, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   X,
   ChevronLeft,
   ChevronRight,
-  Search,
   Heart,
   ShoppingBag,
-  Star,
   Menu,
   Sparkles,
   Crown,
@@ -17,186 +15,599 @@ import {
   Filter,
   Grid3X3,
   List,
-  Eye,
-  Share2,
   ArrowRight,
+  Play,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-
-// ---------- Types ----------
-interface CatalogItem {
-  id: string;
-  name: string;
-  image: string | null;
-}
-
-interface Subfolder {
-  id: string;
-  name: string;
-  preview: CatalogItem[];
-  all: CatalogItem[];
-}
-
-interface Category {
-  id: string;
-  name: string;
-  subfolders: Subfolder[];
-}
+import { CartDrawer } from "@/components/cart-drawer";
+import { OfflineBanner, UpdatedToast } from "@/components/catalog-status";
+import { Link } from "@/components/link";
+import { CatalogGrid, CatalogItemCard } from "@/components/catalog-item-card";
+import { ImageDebugPanel } from "@/components/image-debug-panel";
+import { LanguageSwitcher } from "@/components/language-switcher";
+import { Lightbox } from "@/components/lightbox";
+import { LiveAnnouncer } from "@/components/live-announcer";
+import { LoadMoreSentinel } from "@/components/load-more-sentinel";
+import { MobileNav } from "@/components/mobile-nav";
+import { FacetFilters } from "@/components/facet-filters";
+import { ProductDetail } from "@/components/product-detail";
+import { SearchInput } from "@/components/search-input";
+import { ShareDialog, ShareNotice } from "@/components/share-dialog";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { VirtualCatalogGrid } from "@/components/virtual-catalog-grid";
+import { WishlistView } from "@/components/wishlist-view";
+import { useBrokenImages } from "@/hooks/use-broken-images";
+import { useCart } from "@/hooks/use-cart";
+import { useEnquiries } from "@/hooks/use-enquiries";
+import { useCatalogQuery } from "@/hooks/use-catalog-query";
+import { useFavorites } from "@/hooks/use-favorites";
+import { useI18n } from "@/hooks/use-i18n";
+import { useRecentSearches } from "@/hooks/use-recent-searches";
+import { useSlideshowSettings } from "@/hooks/use-slideshow-settings";
+import { useSubfolderPages } from "@/hooks/use-subfolder-pages";
+import { useRoute } from "@/hooks/use-route";
+import { announce } from "@/lib/announcer";
+import { apiUrl, fetchCatalog } from "@/lib/api";
+import { describeApiError, NetworkError } from "@/lib/api-errors";
+import { createCartLine } from "@/lib/cart";
+import {
+  catalogsEqual,
+  loadCachedCatalog,
+  saveCachedCatalog,
+} from "@/lib/catalog-cache";
+import {
+  indexCatalogItems,
+  isCatalogComplete,
+  mergeLoadedPages,
+  subfolderKey,
+  type CatalogEntry,
+  type CatalogItem,
+  type Category,
+} from "@/lib/catalog";
+import { buildCatalogSearch, parseCatalogQuery } from "@/lib/catalog-query";
+import type { Enquiry } from "@/lib/enquiry";
+import {
+  computeFacetCounts,
+  describePriceRange,
+  EMPTY_FACETS,
+  FACETS,
+  hasActiveFacets,
+  hasPriceFilter,
+  matchesFacets,
+  priceBounds,
+  type FacetKey,
+} from "@/lib/facets";
+import { localizeCatalog } from "@/lib/i18n";
+import {
+  buildSearchIndex,
+  searchCatalog,
+  suggestSearches,
+  type SearchSuggestion,
+} from "@/lib/search";
+import {
+  buildPath,
+  isModalRoute,
+  parseRoute,
+  paths,
+  type Route,
+} from "@/lib/router";
+import { itemShareContent, shareNatively } from "@/lib/share";
+import { categorySlideshowItems } from "@/lib/slideshow";
+import { isSortKey, SORT_OPTIONS, sortItems } from "@/lib/sort";
 
 // ---------- Component ----------
+// Expanded subfolders longer than this are windowed (see VirtualCatalogGrid).
+const VIRTUALIZE_AFTER = 24;
+
 export default function SareeCatalog() {
-  const API_BASE = "https://saree-backend-j7zj.onrender.com";
-  // const API_BASE = "http://localhost:5000";
-  const [catalog, setCatalog] = useState<Category[]>([]);
+  const [rawCatalog, setCatalog] = useState<Category[]>([]);
   const [loading, setLoading] = useState(true);
+  // False while a network fetch is in flight, even when a saved catalog is
+  // already on screen.
+  const [fetchSettled, setFetchSettled] = useState(false);
   const [activeSubfolder, setActiveSubfolder] = useState<string | null>(null);
-  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
-  const [lightboxItems, setLightboxItems] = useState<CatalogItem[]>([]);
-  const [error, setError] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [selectedCategories, setSelectedCategories] = useState<Set<string>>(
-    new Set()
-  );
-  const [favorites, setFavorites] = useState<Set<string>>(new Set());
+  const [lightboxContext, setLightboxContext] = useState<CatalogItem[]>([]);
+  const [slideshowPlaying, setSlideshowPlaying] = useState(false);
+  const { settings: slideshowSettings, updateSettings: updateSlideshow } =
+    useSlideshowSettings();
+  const [error, setError] = useState<unknown>(null);
+  const [loadAttempt, setLoadAttempt] = useState<{
+    attempt: number;
+    attempts: number;
+  } | null>(null);
+  const loadControllerRef = useRef<AbortController | null>(null);
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
+  const [staleError, setStaleError] = useState<unknown>(null);
+  const [catalogUpdated, setCatalogUpdated] = useState(false);
+  const { pageStates, loadMore } = useSubfolderPages(setCatalog);
+  const dismissCatalogUpdated = useCallback(() => setCatalogUpdated(false), []);
+  const [shareTarget, setShareTarget] = useState<CatalogItem | null>(null);
+  const [shareNotice, setShareNotice] = useState<string | null>(null);
+  const closeShareDialog = useCallback(() => setShareTarget(null), []);
+  const dismissShareNotice = useCallback(() => setShareNotice(null), []);
+  const { favorites, toggleFavorite, reconcile } = useFavorites();
+  const {
+    recent: recentSearches,
+    addSearch: addRecentSearch,
+    clearSearches: clearRecentSearches,
+  } = useRecentSearches();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
-  const [viewMode, setViewMode] = useState<"grid" | "list">("grid");
+  const closeMobileMenu = useCallback(() => setMobileMenuOpen(false), []);
   const [showFilters, setShowFilters] = useState(true);
+  const [cartOpen, setCartOpen] = useState(false);
+  const cart = useCart();
+  const { enquiries, saveEnquiry } = useEnquiries();
+  const { location, route, navigate } = useRoute();
   const categoryRefs = useRef<{ [key: string]: HTMLElement | null }>({});
+  const i18n = useI18n();
+  const { t, formatNumber } = i18n;
+  // Everything below shows names in the current language; only search also
+  // looks at the others (see buildSearchIndex).
+  const catalog = useMemo(
+    () => localizeCatalog(rawCatalog, i18n.locale),
+    [rawCatalog, i18n.locale]
+  );
+
+  // Unknown category ids in the URL can only be judged against a catalog
+  // fresh from the network: a saved copy may predate a shared collection.
+  const knownCategoryIds = useMemo(
+    () =>
+      !fetchSettled || error || staleError
+        ? null
+        : new Set(catalog.map((category) => category.id)),
+    [catalog, fetchSettled, error, staleError]
+  );
+  const {
+    searchQuery,
+    selectedCategories,
+    viewMode,
+    sort,
+    facets,
+    update: updateQuery,
+  } = useCatalogQuery(knownCategoryIds);
+
+  // ---- Fetch catalog ----
+  async function loadCatalog() {
+    // Only one load in flight: "Try Again" and unmounting cancel the last one.
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+
+    // Stale-while-revalidate: a saved catalog renders straight away and the
+    // network only decides whether it gets replaced.
+    const cached = loadCachedCatalog();
+    if (cached) {
+      setCatalog((prev) => (prev.length ? prev : cached.catalog));
+      setCachedAt(cached.savedAt);
+    }
+    setLoading(!cached);
+    setFetchSettled(false);
+    setError(null);
+    setStaleError(null);
+    setLoadAttempt(null);
 
-  // ---- Utils ----
-  async function tryFetchJson(url: string): Promise<any | null> {
     try {
-      const res = await fetch(url);
-      if (!res.ok) return null;
-      return await res.json();
+      const { catalog: data, cachedAt: workerCachedAt } = await fetchCatalog({
+        signal: controller.signal,
+        onAttempt: (attempt, attempts) => setLoadAttempt({ attempt, attempts }),
+      });
+      if (workerCachedAt) {
+        // The service worker replayed its saved copy, so we're offline: show
+        // whichever copy is newer and keep the banner, but don't save it as
+        // if it were fresh.
+        if (!cached || workerCachedAt > cached.savedAt) {
+          setCatalog((prev) => mergeLoadedPages(data, prev));
+          setCachedAt(workerCachedAt);
+        }
+        setStaleError(new NetworkError(apiUrl("/api/catalog")));
+        return;
+      }
+      if (cached && !catalogsEqual(cached.catalog, data)) {
+        setCatalogUpdated(true);
+      }
+      // Pages loaded while the saved copy was showing are kept.
+      setCatalog((prev) => mergeLoadedPages(data, prev));
+      saveCachedCatalog(data);
     } catch (err) {
-      console.error("Fetch error:", err);
-      return null;
+      if (controller.signal.aborted) return;
+      console.error("Catalog fetch failed:", err);
+      if (cached) {
+        setStaleError(err);
+      } else {
+        setError(err);
+      }
+    } finally {
+      if (loadControllerRef.current === controller) {
+        loadControllerRef.current = null;
+        setLoading(false);
+        setFetchSettled(true);
+      }
     }
   }
 
-  function normalizeFileObj(f: any): CatalogItem | null {
-    if (!f) return null;
-    const id: string = f.id || f.fileId || f.name;
-    const name: string =
-      f.name || f.title || f.fileName?.split(".").slice(0, -1).join(".") || id;
-    const image: string | null =
-      f.image || (id ? `https://drive.google.com/uc?id=${id}` : null);
-    return { id, name, image };
-  }
-
-  function normalizeFilesArray(arr: unknown[] = []): CatalogItem[] {
-    return arr
-      .map(normalizeFileObj)
-      .filter((f): f is CatalogItem => f !== null)
-      .filter((v, i, a) => v.id && a.findIndex((x) => x.id === v.id) === i);
-  }
-
-  // ---- Fetch catalog ----
-  async function loadCatalog() {
-    setLoading(true);
-    setError(null);
+  useEffect(() => {
+    loadCatalog();
+    return () => loadControllerRef.current?.abort();
+  }, []);
 
-    const data = await tryFetchJson(`${API_BASE}/api/catalog`);
-    console.log("📦 Catalog API response:", data);
-    setLoading(false);
+  const itemIndex = useMemo(() => indexCatalogItems(catalog), [catalog]);
 
-    if (!Array.isArray(data)) {
-      setError("Cannot fetch catalog");
-      setLoading(false);
-      return;
+  // Only reconcile against a real, fully loaded catalog: an empty one means
+  // the fetch failed, and pieces on pages not fetched yet aren't gone.
+  useEffect(() => {
+    if (catalog.length > 0 && isCatalogComplete(catalog)) {
+      reconcile(itemIndex);
+    }
+  }, [catalog, itemIndex, reconcile]);
+
+  // ---- Routing ----
+  // /item/:id and /product/:id are modal routes: the page behind them is
+  // where the user opened them from, or the item's own subfolder when the
+  // link was opened directly.
+  const viewRoute = useMemo<Route>(() => {
+    if (!isModalRoute(route)) return route;
+    const background = location.state?.background
+      ? parseRoute(location.state.background)
+      : null;
+    if (background && !isModalRoute(background)) return background;
+    const entry = itemIndex.get(route.itemId);
+    return entry
+      ? {
+          name: "subfolder",
+          categoryId: entry.category.id,
+          subfolderId: entry.subfolder.id,
+        }
+      : { name: "home" };
+  }, [route, location.state, itemIndex]);
+  const viewPath = buildPath(viewRoute);
+
+  const loopCategory = slideshowPlaying && slideshowSettings.loopCategory;
+  const lightboxItems = useMemo(() => {
+    if (route.name !== "item") return [];
+    const entry = itemIndex.get(route.itemId);
+    if (loopCategory && entry) return categorySlideshowItems(entry.category);
+    if (lightboxContext.some((item) => item.id === route.itemId)) {
+      return lightboxContext;
     }
+    return entry?.subfolder.all ?? [];
+  }, [route, lightboxContext, itemIndex, loopCategory]);
+  const lightboxPosition =
+    route.name === "item"
+      ? lightboxItems.findIndex((item) => item.id === route.itemId)
+      : -1;
+  const lightboxIndex = lightboxPosition >= 0 ? lightboxPosition : null;
+  // A slideshow ends with the lightbox, however it was closed.
+  if (route.name !== "item" && slideshowPlaying) setSlideshowPlaying(false);
+  const brokenImages = useBrokenImages();
+  const brokenImageIds = useMemo(
+    () => new Set(brokenImages.map((image) => image.id)),
+    [brokenImages]
+  );
+  const showImageDebug =
+    new URLSearchParams(location.search).get("debug") === "images";
 
-    const normalized: Category[] = data.map((cat) => ({
-      id: cat.id,
-      name: cat.name,
-      subfolders: (cat.subfolders || []).map((sub: any) => {
-        const preview = normalizeFilesArray(
-          sub.preview || sub.files || []
-        ).slice(0, 5);
-        const all = normalizeFilesArray(sub.all || sub.files || []);
-        return {
-          id: sub.id,
-          name: sub.name,
-          preview,
-          all: all.length ? all : preview,
-        };
-      }),
-    }));
+  const routeCatalog = useMemo(() => {
+    if (viewRoute.name === "category") {
+      return catalog.filter((c) => c.id === viewRoute.categoryId);
+    }
+    if (viewRoute.name === "subfolder") {
+      return catalog
+        .filter((c) => c.id === viewRoute.categoryId)
+        .map((c) => ({
+          ...c,
+          subfolders: c.subfolders.filter(
+            (sub) => sub.id === viewRoute.subfolderId
+          ),
+        }))
+        .filter((c) => c.subfolders.length > 0);
+    }
+    return catalog;
+  }, [catalog, viewRoute]);
 
-    console.log("✅ Normalized Catalog:", normalized);
-
-    setCatalog(normalized);
-    setLoading(false);
-  }
+  const notFound =
+    viewRoute.name === "notFound" ||
+    (isModalRoute(route) && !itemIndex.has(route.itemId)) ||
+    ((viewRoute.name === "category" || viewRoute.name === "subfolder") &&
+      routeCatalog.length === 0);
 
+  // Bring the catalog into view when moving to a collection page; home keeps
+  // the hero and lets the browser restore its own scroll position.
   useEffect(() => {
-    loadCatalog();
-  }, []);
+    if (loading || viewPath === paths.home()) return;
+    document.getElementById("catalog")?.scrollIntoView();
+  }, [loading, viewPath]);
+
+  const productEntry =
+    route.name === "product" ? (itemIndex.get(route.itemId) ?? null) : null;
+
+  const wishlistEntries = useMemo(() => {
+    const entries = Array.from(favorites)
+      .map((id) => itemIndex.get(id))
+      .filter((entry): entry is CatalogEntry => entry !== undefined);
+    if (sort === "featured") return entries;
+    return sortItems(
+      entries.map((entry) => entry.item),
+      sort
+    ).map((item) => itemIndex.get(item.id)!);
+  }, [favorites, itemIndex, sort]);
 
   // ---- Filtering ----
-  const filteredCatalog = useMemo(() => {
-    if (!searchQuery && selectedCategories.size === 0) return catalog;
+  const searchIndex = useMemo(() => buildSearchIndex(rawCatalog), [rawCatalog]);
+  const searchResults = useMemo(
+    () =>
+      searchQuery.trim()
+        ? searchCatalog(searchIndex, routeCatalog, searchQuery)
+        : null,
+    [searchIndex, routeCatalog, searchQuery]
+  );
 
-    return catalog
+  // Search narrows subfolders down to the matching pieces. Categories,
+  // subfolders and pieces are ranked by relevance; an explicit sort order
+  // still re-sorts pieces afterwards (see below).
+  const matchedCatalog = useMemo(() => {
+    if (!searchResults && selectedCategories.size === 0) return routeCatalog;
+
+    const categoryScores = new Map<string, number>();
+    const matched = routeCatalog
+      .filter(
+        (category) =>
+          selectedCategories.size === 0 || selectedCategories.has(category.id)
+      )
+      .map((category) => {
+        if (!searchResults) return category;
+        const ranked = category.subfolders
+          .map((sub) => ({
+            sub,
+            result: searchResults.get(subfolderKey(category.id, sub.id)),
+          }))
+          .filter(({ result }) => result !== undefined)
+          .sort((a, b) => b.result!.score - a.result!.score);
+        categoryScores.set(category.id, ranked[0]?.result!.score ?? 0);
+        return {
+          ...category,
+          subfolders: ranked.map(({ sub, result }) => {
+            const all = sub.all
+              .filter((item) => result!.items.has(item.id))
+              .sort(
+                (a, b) => result!.items.get(b.id)! - result!.items.get(a.id)!
+              );
+            return { ...sub, all, preview: all.slice(0, sub.preview.length) };
+          }),
+        };
+      })
+      .filter((category) => category.subfolders.length > 0);
+
+    return searchResults
+      ? matched.sort(
+          (a, b) => categoryScores.get(b.id)! - categoryScores.get(a.id)!
+        )
+      : matched;
+  }, [routeCatalog, searchResults, selectedCategories]);
+
+  // ---- Facets ----
+  // Counts and the price slider describe what search/category filters left,
+  // so every number on a chip is what you'd get by clicking it.
+  const matchedItems = useMemo(() => {
+    const items = new Map<string, CatalogItem>();
+    for (const category of matchedCatalog) {
+      for (const sub of category.subfolders) {
+        for (const item of sub.all) {
+          if (!items.has(item.id)) items.set(item.id, item);
+        }
+      }
+    }
+    return Array.from(items.values());
+  }, [matchedCatalog]);
+  const facetCounts = useMemo(
+    () => computeFacetCounts(matchedItems, facets),
+    [matchedItems, facets]
+  );
+  const facetPriceBounds = useMemo(
+    () => priceBounds(matchedItems),
+    [matchedItems]
+  );
+  const facetsActive = hasActiveFacets(facets);
+  const priceFilterLabel = hasPriceFilter(facets)
+    ? t("filters.value", {
+        label: t("price.label"),
+        value: describePriceRange(facets.priceMin, facets.priceMax, i18n),
+      })
+    : null;
+  const filtersActive =
+    selectedCategories.size > 0 || searchQuery !== "" || facetsActive;
+
+  // Facets filter individual pieces, so subfolders keep only matching items
+  // and disappear once none are left.
+  const facetedCatalog = useMemo(() => {
+    if (!facetsActive) return matchedCatalog;
+    return matchedCatalog
       .map((category) => ({
         ...category,
-        subfolders: category.subfolders.filter((sub) => {
-          const matchesSearch =
-            searchQuery === "" ||
-            sub.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-            category.name.toLowerCase().includes(searchQuery.toLowerCase());
-          const matchesCategory =
-            selectedCategories.size === 0 ||
-            selectedCategories.has(category.id);
-          return matchesSearch && matchesCategory;
-        }),
+        subfolders: category.subfolders
+          .map((sub) => {
+            const all = sub.all.filter((item) => matchesFacets(item, facets));
+            return { ...sub, all, preview: all.slice(0, sub.preview.length) };
+          })
+          .filter((sub) => sub.all.length > 0),
       }))
       .filter((category) => category.subfolders.length > 0);
-  }, [catalog, searchQuery, selectedCategories]);
+  }, [matchedCatalog, facets, facetsActive]);
+
+  // ---- Sorting ----
+  // Sorting happens within each subfolder; the collapsed preview shows the
+  // first few pieces of the sorted list rather than the backend's preview.
+  const filteredCatalog = useMemo(() => {
+    if (sort === "featured") return facetedCatalog;
+    return facetedCatalog.map((category) => ({
+      ...category,
+      subfolders: category.subfolders.map((sub) => {
+        const all = sortItems(sub.all, sort);
+        return { ...sub, all, preview: all.slice(0, sub.preview.length) };
+      }),
+    }));
+  }, [facetedCatalog, sort]);
+
+  // ---- Announcements ----
+  // Filtering re-renders the catalog out of view, so say what it did.
+  const resultCount = useMemo(
+    () =>
+      filteredCatalog.reduce(
+        (total, category) =>
+          total +
+          category.subfolders.reduce((sum, sub) => sum + sub.all.length, 0),
+        0
+      ),
+    [filteredCatalog]
+  );
+  const filterSignature = JSON.stringify([
+    searchQuery,
+    Array.from(selectedCategories),
+    facets,
+  ]);
+  const announcedFilters = useRef(filterSignature);
+  useEffect(() => {
+    if (loading || announcedFilters.current === filterSignature) return;
+    announcedFilters.current = filterSignature;
+    announce(
+      resultCount === 0
+        ? t("announce.noResults")
+        : t("announce.results", { count: resultCount })
+    );
+  }, [loading, filterSignature, resultCount, t]);
 
   // ---- UI State Handlers ----
   function toggleSubfolder(subId: string) {
     setActiveSubfolder((prev) => (prev === subId ? null : subId));
   }
 
-  function openLightbox(items: CatalogItem[], index: number) {
-    setLightboxItems(items);
-    setLightboxIndex(index);
+  function openLightbox(
+    items: CatalogItem[],
+    index: number,
+    { autoplay = false } = {}
+  ) {
+    const item = items[index];
+    if (!item) return;
+    setLightboxContext(items);
+    setSlideshowPlaying(autoplay);
+    navigate(paths.item(item.id) + location.search, {
+      state: { background: backgroundPath() },
+    });
+  }
+
+  function openDetails(itemId: string) {
+    navigate(paths.product(itemId) + location.search, {
+      state: { background: backgroundPath() },
+    });
+  }
+
+  /** The page a newly opened modal route should render on top of. */
+  function backgroundPath() {
+    return isModalRoute(route)
+      ? (location.state?.background ?? viewPath + location.search)
+      : location.pathname + location.search;
+  }
+
+  function closeModalRoute() {
+    // Opened from within the app: the background page is the previous
+    // history entry, so going back keeps forward navigation meaningful.
+    if (location.state?.background) {
+      window.history.back();
+    } else {
+      navigate(viewPath + location.search, { replace: true });
+    }
+  }
+
+  function showLightboxItem(index: number) {
+    const item = lightboxItems[index];
+    if (!item) return;
+    navigate(paths.item(item.id) + location.search, {
+      replace: true,
+      state: location.state ?? undefined,
+    });
   }
 
-  function closeLightbox() {
-    setLightboxIndex(null);
-    setLightboxItems([]);
+  // Steps over pieces whose image is known to be broken; stays put when
+  // every other piece is broken too.
+  function stepLightbox(step: 1 | -1) {
+    if (lightboxIndex === null) return;
+    const count = lightboxItems.length;
+    for (let offset = 1; offset < count; offset++) {
+      const index = (lightboxIndex + step * offset + count) % count;
+      if (!brokenImageIds.has(lightboxItems[index].id)) {
+        showLightboxItem(index);
+        return;
+      }
+    }
   }
 
   function prevImage() {
-    setLightboxIndex((prev) =>
-      prev !== null ? (prev > 0 ? prev - 1 : lightboxItems.length - 1) : null
-    );
+    stepLightbox(-1);
   }
 
   function nextImage() {
-    setLightboxIndex((prev) =>
-      prev !== null ? (prev < lightboxItems.length - 1 ? prev + 1 : 0) : null
-    );
+    stepLightbox(1);
   }
 
-  function toggleFavorite(itemId: string) {
-    setFavorites((prev) => {
-      const newFavorites = new Set(prev);
-      if (newFavorites.has(itemId)) {
-        newFavorites.delete(itemId);
-      } else {
-        newFavorites.add(itemId);
-      }
-      return newFavorites;
+  function closeImageDebug() {
+    const params = new URLSearchParams(location.search);
+    params.delete("debug");
+    const search = params.toString();
+    navigate(location.pathname + (search ? `?${search}` : ""), {
+      replace: true,
+      state: location.state ?? undefined,
     });
   }
 
+  function addToCart({ item, category, subfolder }: CatalogEntry) {
+    cart.addItem(createCartLine(item, category, subfolder));
+    announce(t("announce.addedToCart", { name: item.name }));
+  }
+
+  function updateCartQuantity(itemId: string, quantity: number) {
+    const line = cart.lines.find((l) => l.itemId === itemId);
+    cart.updateQuantity(itemId, quantity);
+    if (line) announce(t("announce.quantity", { name: line.name, quantity }));
+  }
+
+  function removeFromCart(itemId: string) {
+    const line = cart.lines.find((l) => l.itemId === itemId);
+    cart.removeItem(itemId);
+    if (line) announce(t("announce.removedFromCart", { name: line.name }));
+  }
+
+  function clearCart() {
+    cart.clear();
+    announce(t("announce.cartCleared"));
+  }
+
+  // The enquiry keeps its own copy of the lines, so the cart can start over.
+  function completeEnquiry(enquiry: Enquiry) {
+    saveEnquiry(enquiry);
+    cart.clear();
+    announce(t("announce.enquirySent", { reference: enquiry.reference }));
+  }
+
+  function toggleFavoriteItem(itemId: string) {
+    const name = itemIndex.get(itemId)?.item.name ?? t("announce.saree");
+    announce(
+      t(
+        favorites.has(itemId)
+          ? "announce.removedFromWishlist"
+          : "announce.addedToWishlist",
+        { name }
+      )
+    );
+    toggleFavorite(itemId);
+  }
+
+  // The system share sheet where there is one, our own options otherwise.
+  async function shareItem(item: CatalogItem) {
+    if (await shareNatively(itemShareContent(item, i18n))) return;
+    setShareTarget(item);
+  }
+
   function scrollToCategory(categoryId: string) {
     const element = categoryRefs.current[categoryId];
     if (element) {
@@ -211,21 +622,64 @@ export default function SareeCatalog() {
     }
   }
 
+  // Categories not on screen (e.g. from the wishlist) open their own page.
+  function goToCategory(categoryId: string) {
+    if (categoryRefs.current[categoryId]) scrollToCategory(categoryId);
+    else navigate(paths.category(categoryId));
+  }
+
   function toggleCategoryFilter(categoryId: string) {
-    setSelectedCategories((prev) => {
-      const newSelected = new Set(prev);
-      if (newSelected.has(categoryId)) {
-        newSelected.delete(categoryId);
-      } else {
-        newSelected.add(categoryId);
-      }
-      return newSelected;
+    const newSelected = new Set(selectedCategories);
+    if (newSelected.has(categoryId)) {
+      newSelected.delete(categoryId);
+    } else {
+      newSelected.add(categoryId);
+    }
+    updateQuery({ categories: Array.from(newSelected) });
+  }
+
+  function toggleFacetValue(key: FacetKey, value: string) {
+    const folded = value.toLowerCase();
+    const current = facets[key];
+    const next = current.some((v) => v.toLowerCase() === folded)
+      ? current.filter((v) => v.toLowerCase() !== folded)
+      : [...current, value];
+    updateQuery({ facets: { ...facets, [key]: next } });
+  }
+
+  function setPriceRange(min: number | undefined, max: number | undefined) {
+    updateQuery({ facets: { ...facets, priceMin: min, priceMax: max } });
+  }
+
+  const setSearchQuery = useCallback(
+    (q: string) => updateQuery({ q }),
+    [updateQuery]
+  );
+
+  const getSearchSuggestions = useCallback(
+    (text: string) => suggestSearches(searchIndex, catalog, text),
+    [searchIndex, catalog]
+  );
+
+  function selectSearchSuggestion(suggestion: SearchSuggestion) {
+    if (suggestion.kind === "item") {
+      openDetails(suggestion.itemId);
+      return;
+    }
+    // Jumping to a collection replaces the search it was found with.
+    const search = buildCatalogSearch(window.location.search, {
+      ...parseCatalogQuery(window.location.search),
+      q: "",
     });
+    const path =
+      suggestion.kind === "category"
+        ? paths.category(suggestion.categoryId)
+        : paths.subfolder(suggestion.categoryId, suggestion.subfolderId);
+    navigate(path + search);
   }
 
   function clearAllFilters() {
-    setSelectedCategories(new Set());
-    setSearchQuery("");
+    updateQuery({ categories: [], q: "", facets: EMPTY_FACETS });
   }
 
   // ---- Loading ----
@@ -244,18 +698,27 @@ export default function SareeCatalog() {
           </div>
           <div className="space-y-2">
             <h2 className="text-2xl font-bold text-primary">
-              Curating Excellence
+              {t("loading.title")}
             </h2>
             <p className="text-muted-foreground">
-              Unveiling our premium saree collection...
+              {loadAttempt && loadAttempt.attempt > 1
+                ? t("loading.retrying", loadAttempt)
+                : t("loading.message")}
             </p>
           </div>
+          {loadAttempt && loadAttempt.attempt > 1 && (
+            <Button variant="outline" onClick={loadCatalog}>
+              <ArrowRight className="w-4 h-4 mr-2" />
+              {t("action.tryAgain")}
+            </Button>
+          )}
         </motion.div>
       </div>
     );
 
   // ---- Error ----
-  if (error)
+  if (error) {
+    const { title, message } = describeApiError(error, t);
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-secondary/20">
         <motion.div
@@ -268,23 +731,29 @@ export default function SareeCatalog() {
               <div className="w-16 h-16 bg-destructive/10 rounded-full flex items-center justify-center mx-auto">
                 <X className="w-8 h-8 text-destructive" />
               </div>
-              <h3 className="text-xl font-semibold text-foreground">
-                Oops! Something went wrong
-              </h3>
-              <p className="text-muted-foreground">{error}</p>
+              <h3 className="text-xl font-semibold text-foreground">{title}</h3>
+              <p className="text-muted-foreground">{message}</p>
               <Button onClick={loadCatalog} className="w-full">
                 <ArrowRight className="w-4 h-4 mr-2" />
-                Try Again
+                {t("action.tryAgain")}
               </Button>
             </CardContent>
           </Card>
         </motion.div>
       </div>
     );
+  }
 
   // ---- Main UI ----
   return (
     <div className="min-h-screen bg-background">
+      <LiveAnnouncer />
+      <a
+        href="#catalog"
+        className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:left-4 focus:z-[100] focus:rounded-md focus:bg-primary focus:px-4 focus:py-2 focus:text-primary-foreground"
+      >
+        {t("nav.skipToCatalog")}
+      </a>
       {/* Hero Section */}
       <section className="relative h-[70vh] overflow-hidden bg-gradient-to-br from-primary/5 via-secondary/10 to-accent/5">
         <div className="absolute inset-0 bg-gradient-to-r from-background/80 via-transparent to-background/80" />
@@ -301,20 +770,19 @@ export default function SareeCatalog() {
                 variant="secondary"
                 className="px-4 py-2 text-sm font-medium"
               >
-                Premium Collection
+                {t("brand.tagline")}
               </Badge>
             </div>
             <h1 className="text-5xl md:text-7xl font-bold text-primary mb-6 text-balance">
-              Saree Studio
+              {t("brand.name")}
             </h1>
             <p className="text-xl md:text-2xl text-muted-foreground max-w-2xl mx-auto text-pretty">
-              Where tradition meets elegance. Discover our curated collection of
-              exquisite sarees crafted for the modern woman.
+              {t("hero.subtitle")}
             </p>
             <div className="flex flex-col sm:flex-row gap-4 justify-center mt-8">
               <Button size="lg" className="px-8 py-4 text-lg font-medium">
                 <Sparkles className="w-5 h-5 mr-2" />
-                Explore Collection
+                {t("hero.explore")}
               </Button>
               <Button
                 size="lg"
@@ -322,7 +790,7 @@ export default function SareeCatalog() {
                 className="px-8 py-4 text-lg font-medium bg-transparent"
               >
                 <Award className="w-5 h-5 mr-2" />
-                Premium Catalog
+                {t("hero.catalog")}
               </Button>
             </div>
           </motion.div>
@@ -337,76 +805,169 @@ export default function SareeCatalog() {
             <div className="flex items-center space-x-4">
               <Crown className="w-8 h-8 text-primary" />
               <div>
-                <h2 className="text-xl font-bold text-primary">Saree Studio</h2>
+                <h2 className="text-xl font-bold text-primary">
+                  {t("brand.name")}
+                </h2>
                 <p className="text-xs text-muted-foreground">
-                  Premium Collection
+                  {t("brand.tagline")}
                 </p>
               </div>
             </div>
 
-            <nav className="hidden md:flex items-center space-x-8">
-              <a
-                href="#catalog"
+            <nav
+              aria-label={t("nav.main")}
+              className="hidden md:flex items-center space-x-8"
+            >
+              <Link
+                to={paths.home()}
                 className="hover:text-primary transition-colors font-medium"
               >
-                Collection
-              </a>
+                {t("nav.collection")}
+              </Link>
               <a
                 href="#about"
                 className="hover:text-primary transition-colors font-medium"
               >
-                About
+                {t("nav.about")}
               </a>
               <a
                 href="#contact"
                 className="hover:text-primary transition-colors font-medium"
               >
-                Contact
+                {t("nav.contact")}
               </a>
-              <Button size="sm" className="ml-4">
+              <Button
+                size="sm"
+                variant={viewRoute.name === "wishlist" ? "default" : "outline"}
+                className="ml-4"
+                onClick={() =>
+                  navigate(
+                    viewRoute.name === "wishlist"
+                      ? paths.home()
+                      : paths.wishlist()
+                  )
+                }
+              >
+                <Heart className="w-4 h-4 mr-2" />
+                {t("nav.wishlist", { count: wishlistEntries.length })}
+              </Button>
+              <Button size="sm" onClick={() => setCartOpen(true)}>
                 <ShoppingBag className="w-4 h-4 mr-2" />
-                Cart ({favorites.size})
+                {t("nav.cart", { count: cart.count })}
               </Button>
             </nav>
 
-            <Button
-              variant="ghost"
-              size="sm"
-              className="md:hidden"
-              onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
-            >
-              <Menu className="w-5 h-5" />
-            </Button>
+            <div className="flex items-center gap-2">
+              <LanguageSwitcher className="hidden md:inline-flex" />
+              <ThemeToggle className="hidden md:inline-flex" />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="md:hidden"
+                onClick={() => setMobileMenuOpen(!mobileMenuOpen)}
+                aria-label={t("nav.openMenu")}
+                aria-expanded={mobileMenuOpen}
+                aria-controls="mobile-nav"
+              >
+                <Menu className="w-5 h-5" />
+              </Button>
+            </div>
           </div>
         </div>
       </header>
 
-      {/* Search & Filters */}
-      <section className="bg-card/30 border-y border-border backdrop-blur-sm">
+      <MobileNav
+        open={mobileMenuOpen}
+        categories={filteredCatalog.map((category) => ({
+          id: category.id,
+          name: category.name,
+          count: category.subfolders.reduce(
+            (total, sub) => total + sub.all.length,
+            0
+          ),
+        }))}
+        wishlistCount={wishlistEntries.length}
+        cartCount={cart.count}
+        search={
+          <SearchInput
+            value={searchQuery}
+            onSearch={setSearchQuery}
+            getSuggestions={getSearchSuggestions}
+            onSelectSuggestion={(suggestion) => {
+              closeMobileMenu();
+              selectSearchSuggestion(suggestion);
+            }}
+            recentSearches={recentSearches}
+            onRecordSearch={(query) => {
+              closeMobileMenu();
+              addRecentSearch(query);
+            }}
+            onClearRecent={clearRecentSearches}
+          />
+        }
+        onClose={closeMobileMenu}
+        onSelectCategory={goToCategory}
+        onOpenWishlist={() => navigate(paths.wishlist())}
+        onOpenCart={() => setCartOpen(true)}
+      />
+
+      {staleError !== null && (
+        <OfflineBanner
+          error={staleError}
+          savedAt={cachedAt}
+          onRetry={loadCatalog}
+        />
+      )}
+
+      {/* Search & Filters – lifted above the sticky category bar while the
+          suggestions dropdown is open so the bar doesn't cover it. */}
+      <section className="relative bg-card/30 border-y border-border backdrop-blur-sm has-[[role=combobox][aria-expanded=true]]:z-[45]">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <div className="flex flex-col lg:flex-row gap-6 items-center">
-            <div className="flex-1 relative">
-              <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-muted-foreground w-5 h-5" />
-              <Input
-                placeholder="Search exquisite sarees, collections, or styles..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                className="pl-12 h-14 text-lg border-2 border-border/50 focus:border-primary/50 bg-background/80 backdrop-blur-sm"
-              />
-            </div>
+            <SearchInput
+              value={searchQuery}
+              onSearch={setSearchQuery}
+              getSuggestions={getSearchSuggestions}
+              onSelectSuggestion={selectSearchSuggestion}
+              recentSearches={recentSearches}
+              onRecordSearch={addRecentSearch}
+              onClearRecent={clearRecentSearches}
+            />
             <div className="flex items-center gap-4">
+              <select
+                value={sort}
+                onChange={(e) =>
+                  updateQuery({
+                    sort: isSortKey(e.target.value)
+                      ? e.target.value
+                      : "featured",
+                  })
+                }
+                aria-label={t("sort.label")}
+                className="h-9 rounded-md border border-input bg-background px-3 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+              >
+                {SORT_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {t(option.labelKey)}
+                  </option>
+                ))}
+              </select>
               <div className="flex gap-2">
                 <Button
                   variant={viewMode === "grid" ? "default" : "outline"}
                   size="sm"
-                  onClick={() => setViewMode("grid")}
+                  onClick={() => updateQuery({ view: "grid" })}
+                  aria-label={t("view.grid")}
+                  aria-pressed={viewMode === "grid"}
                 >
                   <Grid3X3 className="w-4 h-4" />
                 </Button>
                 <Button
                   variant={viewMode === "list" ? "default" : "outline"}
                   size="sm"
-                  onClick={() => setViewMode("list")}
+                  onClick={() => updateQuery({ view: "list" })}
+                  aria-label={t("view.list")}
+                  aria-pressed={viewMode === "list"}
                 >
                   <List className="w-4 h-4" />
                 </Button>
@@ -414,10 +975,12 @@ export default function SareeCatalog() {
               <Button
                 variant="outline"
                 onClick={() => setShowFilters(!showFilters)}
+                aria-expanded={showFilters}
+                aria-controls="catalog-filters"
                 className="gap-2"
               >
                 <Filter className="w-4 h-4" />
-                Filters
+                {t("filters.toggle")}
               </Button>
             </div>
           </div>
@@ -425,6 +988,7 @@ export default function SareeCatalog() {
           <AnimatePresence>
             {showFilters && (
               <motion.div
+                id="catalog-filters"
                 initial={{ opacity: 0, height: 0 }}
                 animate={{ opacity: 1, height: "auto" }}
                 exit={{ opacity: 0, height: 0 }}
@@ -433,16 +997,16 @@ export default function SareeCatalog() {
                 <div className="space-y-4">
                   <div className="flex items-center justify-between">
                     <p className="text-sm font-medium text-muted-foreground">
-                      Filter by Collection
+                      {t("filters.byCollection")}
                     </p>
-                    {selectedCategories.size > 0 && (
+                    {filtersActive && (
                       <Button
                         variant="ghost"
                         size="sm"
                         onClick={clearAllFilters}
                         className="text-xs"
                       >
-                        Clear All
+                        {t("filters.clearAll")}
                       </Button>
                     )}
                   </div>
@@ -456,6 +1020,7 @@ export default function SareeCatalog() {
                             : "outline"
                         }
                         onClick={() => toggleCategoryFilter(category.id)}
+                        aria-pressed={selectedCategories.has(category.id)}
                         size="sm"
                         className="gap-2"
                       >
@@ -466,20 +1031,27 @@ export default function SareeCatalog() {
                       </Button>
                     ))}
                   </div>
+                  <FacetFilters
+                    counts={facetCounts}
+                    bounds={facetPriceBounds}
+                    selection={facets}
+                    onToggle={toggleFacetValue}
+                    onPriceChange={setPriceRange}
+                  />
                 </div>
               </motion.div>
             )}
           </AnimatePresence>
 
           {/* Active Filters Display */}
-          {selectedCategories.size > 0 && (
+          {(selectedCategories.size > 0 || facetsActive) && (
             <motion.div
               initial={{ opacity: 0, y: -10 }}
               animate={{ opacity: 1, y: 0 }}
               className="mt-4 flex items-center gap-3 flex-wrap"
             >
               <span className="text-sm font-medium text-muted-foreground">
-                Active Filters:
+                {t("filters.active")}
               </span>
               {Array.from(selectedCategories).map((categoryId) => {
                 const category = catalog.find((c) => c.id === categoryId);
@@ -488,20 +1060,79 @@ export default function SareeCatalog() {
                     key={categoryId}
                     variant="secondary"
                     className="px-3 py-1 gap-2 cursor-pointer hover:bg-destructive/10 hover:text-destructive transition-colors"
-                    onClick={() => toggleCategoryFilter(categoryId)}
+                    asChild
                   >
-                    {category?.name}
-                    <X className="w-3 h-3" />
+                    <button
+                      type="button"
+                      onClick={() => toggleCategoryFilter(categoryId)}
+                      aria-label={t("filters.remove", {
+                        label: category?.name ?? categoryId,
+                      })}
+                    >
+                      {category?.name}
+                      <X className="w-3 h-3" />
+                    </button>
                   </Badge>
                 );
               })}
+              {FACETS.flatMap(({ key, labelKey }) =>
+                facets[key].map((value) => {
+                  const label = t("filters.value", {
+                    label: t(labelKey),
+                    value,
+                  });
+                  return (
+                    <Badge
+                      key={`${key}:${value}`}
+                      variant="secondary"
+                      className="px-3 py-1 gap-2 cursor-pointer hover:bg-destructive/10 hover:text-destructive transition-colors"
+                      asChild
+                    >
+                      <button
+                        type="button"
+                        onClick={() => toggleFacetValue(key, value)}
+                        aria-label={t("filters.remove", { label })}
+                      >
+                        {label}
+                        <X className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  );
+                })
+              )}
+              {priceFilterLabel && (
+                <Badge
+                  variant="secondary"
+                  className="px-3 py-1 gap-2 cursor-pointer hover:bg-destructive/10 hover:text-destructive transition-colors"
+                  asChild
+                >
+                  <button
+                    type="button"
+                    onClick={() => setPriceRange(undefined, undefined)}
+                    aria-label={t("filters.remove", {
+                      label: priceFilterLabel,
+                    })}
+                  >
+                    {priceFilterLabel}
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={clearAllFilters}
+                className="text-xs"
+              >
+                {t("filters.clearAll")}
+              </Button>
             </motion.div>
           )}
         </div>
       </section>
 
       {/* Category Navigation - Dynamic Sticky Header */}
-      {filteredCatalog.length > 0 && (
+      {viewRoute.name !== "wishlist" && filteredCatalog.length > 0 && (
         <section className="sticky top-16 z-40 bg-background/95 backdrop-blur-xl border-b border-border shadow-lg">
           <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
             <div className="flex items-center gap-3 py-4 overflow-x-auto scrollbar-hide">
@@ -520,9 +1151,11 @@ export default function SareeCatalog() {
                       variant="secondary"
                       className="ml-2 text-xs bg-primary/10"
                     >
-                      {category.subfolders.reduce(
-                        (total, sub) => total + sub.all.length,
-                        0
+                      {formatNumber(
+                        category.subfolders.reduce(
+                          (total, sub) => total + sub.all.length,
+                          0
+                        )
                       )}
                     </Badge>
                   </Button>
@@ -538,271 +1171,297 @@ export default function SareeCatalog() {
         id="catalog"
         className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16"
       >
-        {filteredCatalog.map((category, categoryIndex) => (
-          <motion.section
-            key={category.id}
-            ref={(el) => {
-              categoryRefs.current[category.id] = el;
-            }}
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.6, delay: categoryIndex * 0.1 }}
-            className="mb-20 scroll-mt-32"
-          >
-            <div className="text-center mb-16">
-              <motion.div
-                initial={{ scale: 0.9 }}
-                animate={{ scale: 1 }}
-                transition={{ duration: 0.5, delay: categoryIndex * 0.1 + 0.2 }}
-                className="space-y-4"
+        {notFound && (
+          <Card className="p-8 text-center max-w-md mx-auto shadow-2xl border-0 bg-card/80 backdrop-blur-sm">
+            <CardContent className="space-y-4">
+              <h3 className="text-xl font-semibold text-foreground">
+                {t("catalog.notFound.title")}
+              </h3>
+              <p className="text-muted-foreground">
+                {t("catalog.notFound.message")}
+              </p>
+              <Button asChild className="w-full">
+                <Link to={paths.home()}>
+                  <ArrowRight className="w-4 h-4 mr-2" />
+                  {t("catalog.notFound.action")}
+                </Link>
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+        {!notFound &&
+          (viewRoute.name === "category" || viewRoute.name === "subfolder") && (
+            <nav className="mb-12 flex items-center gap-2 text-sm text-muted-foreground">
+              <Link
+                to={paths.home()}
+                className="hover:text-primary transition-colors"
               >
-                <Badge
-                  variant="outline"
-                  className="px-4 py-2 text-sm font-medium mb-4"
-                >
-                  {category.name} Collection
-                </Badge>
-                <h2 className="text-4xl md:text-5xl font-bold text-primary mb-6 text-balance">
-                  {category.name}
-                </h2>
-                <div className="w-32 h-1 bg-gradient-to-r from-primary via-accent to-primary mx-auto rounded-full"></div>
-                <p className="text-lg text-muted-foreground max-w-2xl mx-auto text-pretty">
-                  Discover the finest collection of{" "}
-                  {category.name.toLowerCase()} sarees, each piece telling a
-                  story of craftsmanship and elegance.
+                {t("nav.allCollections")}
+              </Link>
+              <ChevronRight className="w-4 h-4" />
+              <Link
+                to={paths.category(viewRoute.categoryId)}
+                className="hover:text-primary transition-colors"
+              >
+                {routeCatalog[0]?.name}
+              </Link>
+              {viewRoute.name === "subfolder" && (
+                <>
+                  <ChevronRight className="w-4 h-4" />
+                  <span className="text-foreground">
+                    {routeCatalog[0]?.subfolders[0]?.name}
+                  </span>
+                </>
+              )}
+            </nav>
+          )}
+        {viewRoute.name !== "wishlist" &&
+          !notFound &&
+          filtersActive &&
+          filteredCatalog.length === 0 && (
+            <Card className="p-8 text-center max-w-md mx-auto shadow-2xl border-0 bg-card/80 backdrop-blur-sm">
+              <CardContent className="space-y-4">
+                <h3 className="text-xl font-semibold text-foreground">
+                  {t("filters.noMatch.title")}
+                </h3>
+                <p className="text-muted-foreground">
+                  {t("filters.noMatch.message")}
                 </p>
-              </motion.div>
-            </div>
-
-            {category.subfolders.map((sub, subIndex) => {
-              const isActive = activeSubfolder === sub.id;
-              const images = isActive ? sub.all : sub.preview;
-              return (
+                <Button onClick={clearAllFilters} className="w-full">
+                  {t("filters.noMatch.action")}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        {viewRoute.name === "wishlist" && (
+          <WishlistView
+            entries={wishlistEntries}
+            viewMode={viewMode}
+            onBack={() => navigate(paths.home())}
+            onToggleFavorite={toggleFavoriteItem}
+            onOpenLightbox={openLightbox}
+            onOpenDetails={openDetails}
+            onAddToCart={addToCart}
+            onShare={shareItem}
+          />
+        )}
+        {viewRoute.name !== "wishlist" &&
+          !notFound &&
+          filteredCatalog.map((category, categoryIndex) => (
+            <motion.section
+              key={category.id}
+              ref={(el) => {
+                categoryRefs.current[category.id] = el;
+              }}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.6, delay: categoryIndex * 0.1 }}
+              className="mb-20 scroll-mt-32"
+            >
+              <div className="text-center mb-16">
                 <motion.div
-                  key={sub.id}
-                  initial={{ opacity: 0, y: 20 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  transition={{ duration: 0.5, delay: subIndex * 0.1 }}
-                  className="mb-16"
+                  initial={{ scale: 0.9 }}
+                  animate={{ scale: 1 }}
+                  transition={{
+                    duration: 0.5,
+                    delay: categoryIndex * 0.1 + 0.2,
+                  }}
+                  className="space-y-4"
                 >
-                  <div className="flex items-center justify-between mb-8">
-                    <div className="space-y-2">
-                      <h3 className="text-2xl md:text-3xl font-semibold text-foreground">
-                        {sub.name}
-                      </h3>
-                      <p className="text-muted-foreground">
-                        {sub.all.length} exquisite pieces in this collection
-                      </p>
-                    </div>
-                    {(sub.all.length > 6 || isActive) && (
-                      <Button
-                        variant="outline"
-                        onClick={() => toggleSubfolder(sub.id)}
-                        className="gap-2"
-                      >
-                        {isActive ? (
-                          <>
-                            <ChevronLeft className="w-4 h-4" />
-                            Show Less
-                          </>
-                        ) : (
-                          <>
-                            View All ({sub.all.length})
-                            <ChevronRight className="w-4 h-4" />
-                          </>
-                        )}
-                      </Button>
-                    )}
-                  </div>
-
-                  <div
-                    className={`grid gap-8 ${
-                      viewMode === "grid"
-                        ? "grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4"
-                        : "grid-cols-1 md:grid-cols-2 gap-6"
-                    }`}
+                  <Badge
+                    variant="outline"
+                    className="px-4 py-2 text-sm font-medium mb-4"
                   >
-                    {images.map((item, index) => (
-                      <motion.div
-                        key={item.id}
-                        initial={{ opacity: 0, scale: 0.9 }}
-                        animate={{ opacity: 1, scale: 1 }}
-                        transition={{ duration: 0.4, delay: index * 0.05 }}
-                        whileHover={{ y: -8 }}
-                        className="group"
-                      >
-                        <Card className="overflow-hidden hover:shadow-2xl transition-all duration-500 border-0 bg-card/80 backdrop-blur-sm">
-                          <div className="relative aspect-[3/4] overflow-hidden">
-                            <img
-                              src={
-                                item.image ||
-                                "/placeholder.svg?height=600&width=450&query=elegant saree"
-                              }
-                              alt={item.name}
-                              className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700 cursor-pointer"
-                              onClick={() => openLightbox(images, index)}
-                            />
-                            <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
-                            <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                              <div className="flex gap-3">
-                                <Button
-                                  size="sm"
-                                  variant="secondary"
-                                  className="backdrop-blur-sm bg-background/80"
-                                  onClick={(e) => {
-                                    e.stopPropagation();
-                                    toggleFavorite(item.id);
-                                  }}
-                                >
-                                  <Heart
-                                    className={`w-4 h-4 ${
-                                      favorites.has(item.id)
-                                        ? "fill-current text-red-500"
-                                        : ""
-                                    }`}
-                                  />
-                                </Button>
-                                <Button
-                                  size="sm"
-                                  className="backdrop-blur-sm"
-                                  onClick={() => openLightbox(images, index)}
-                                >
-                                  <Eye className="w-4 h-4 mr-2" />
-                                  View
-                                </Button>
-                                <Button
-                                  size="sm"
-                                  variant="secondary"
-                                  className="backdrop-blur-sm bg-background/80"
-                                >
-                                  <Share2 className="w-4 h-4" />
-                                </Button>
-                              </div>
-                            </div>
-                            <Badge className="absolute top-4 left-4 bg-primary/90 backdrop-blur-sm">
-                              Premium
-                            </Badge>
-                          </div>
-                          <CardContent className="p-6 space-y-4">
-                            <div>
-                              <h4 className="font-semibold text-lg mb-2 line-clamp-2 text-balance">
-                                {item.name}
-                              </h4>
-                              <p className="text-sm text-muted-foreground">
-                                Handcrafted with premium materials
-                              </p>
-                            </div>
-                            <div className="flex items-center justify-between">
-                              <div className="flex items-center gap-1">
-                                {[...Array(5)].map((_, i) => (
-                                  <Star
-                                    key={i}
-                                    className="w-4 h-4 fill-current text-yellow-400"
-                                  />
-                                ))}
-                                <span className="text-sm ml-2 text-muted-foreground">
-                                  (4.9)
-                                </span>
-                              </div>
-                              <Button
-                                size="sm"
-                                variant="ghost"
-                                onClick={() => toggleFavorite(item.id)}
-                                className="hover:bg-red-50 hover:text-red-500"
-                              >
-                                <Heart
-                                  className={`w-4 h-4 ${
-                                    favorites.has(item.id)
-                                      ? "fill-current text-red-500"
-                                      : ""
-                                  }`}
-                                />
-                              </Button>
-                            </div>
-                            <div className="pt-2 border-t border-border/50">
-                              <div className="flex items-center justify-between">
-                                <span className="text-lg font-bold text-primary">
-                                  {/* ₹{sub.name}
-                                  ₹12,999 */}
-                                </span>
-                                <Button size="sm" className="gap-2">
-                                  <ShoppingBag className="w-4 h-4" />
-                                  Add to Cart
-                                </Button>
-                              </div>
-                            </div>
-                          </CardContent>
-                        </Card>
-                      </motion.div>
-                    ))}
-                  </div>
+                    {t("category.badge", { name: category.name })}
+                  </Badge>
+                  <h2 className="text-4xl md:text-5xl font-bold text-primary mb-6 text-balance">
+                    <Link
+                      to={paths.category(category.id)}
+                      className="hover:opacity-80 transition-opacity"
+                    >
+                      {category.name}
+                    </Link>
+                  </h2>
+                  <div className="w-32 h-1 bg-gradient-to-r from-primary via-accent to-primary mx-auto rounded-full"></div>
+                  <p className="text-lg text-muted-foreground max-w-2xl mx-auto text-pretty">
+                    {t("category.description", {
+                      name: category.name.toLowerCase(),
+                    })}
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() =>
+                      openLightbox(categorySlideshowItems(category), 0, {
+                        autoplay: true,
+                      })
+                    }
+                  >
+                    <Play className="w-4 h-4" />
+                    {t("category.slideshow")}
+                  </Button>
                 </motion.div>
-              );
-            })}
-          </motion.section>
-        ))}
+              </div>
+
+              {category.subfolders.map((sub, subIndex) => {
+                const isSubfolderPage = viewRoute.name === "subfolder";
+                const isActive = isSubfolderPage || activeSubfolder === sub.id;
+                const images = isActive ? sub.all : sub.preview;
+                // The server's total only holds while nothing is filtered.
+                const pieceCount = filtersActive
+                  ? sub.all.length
+                  : (sub.total ?? sub.all.length);
+                const pageState = pageStates[subfolderKey(category.id, sub.id)];
+                const renderCard = (
+                  item: CatalogItem,
+                  index: number,
+                  staggerIndex = index
+                ) => (
+                  <CatalogItemCard
+                    key={item.id}
+                    item={item}
+                    index={staggerIndex}
+                    isFavorite={favorites.has(item.id)}
+                    highlight={searchQuery}
+                    onToggleFavorite={() => toggleFavoriteItem(item.id)}
+                    onOpen={() => openLightbox(images, index)}
+                    onOpenDetails={() => openDetails(item.id)}
+                    onAddToCart={() =>
+                      addToCart({ item, category, subfolder: sub })
+                    }
+                    onShare={() => shareItem(item)}
+                  />
+                );
+                return (
+                  <motion.div
+                    key={sub.id}
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    transition={{ duration: 0.5, delay: subIndex * 0.1 }}
+                    className="mb-16"
+                  >
+                    <div className="flex items-center justify-between mb-8">
+                      <div className="space-y-2">
+                        <h3 className="text-2xl md:text-3xl font-semibold text-foreground">
+                          <Link
+                            to={paths.subfolder(category.id, sub.id)}
+                            className="hover:text-primary transition-colors"
+                          >
+                            {sub.name}
+                          </Link>
+                        </h3>
+                        <p className="text-muted-foreground">
+                          {t("subfolder.pieces", { count: pieceCount })}
+                        </p>
+                      </div>
+                      {(pieceCount > 6 || isActive) && (
+                        <Button
+                          variant="outline"
+                          onClick={() =>
+                            isSubfolderPage
+                              ? navigate(paths.category(category.id))
+                              : toggleSubfolder(sub.id)
+                          }
+                          className="gap-2"
+                        >
+                          {isActive ? (
+                            <>
+                              <ChevronLeft className="w-4 h-4" />
+                              {t("subfolder.showLess")}
+                            </>
+                          ) : (
+                            <>
+                              {t("subfolder.viewAll", { count: pieceCount })}
+                              <ChevronRight className="w-4 h-4" />
+                            </>
+                          )}
+                        </Button>
+                      )}
+                    </div>
+
+                    {images.length > VIRTUALIZE_AFTER ? (
+                      // Rows mount as they scroll into view, so stagger
+                      // by column rather than by position in the list.
+                      <VirtualCatalogGrid
+                        items={images}
+                        viewMode={viewMode}
+                        renderItem={renderCard}
+                      />
+                    ) : (
+                      <CatalogGrid viewMode={viewMode}>
+                        {images.map((item, index) => renderCard(item, index))}
+                      </CatalogGrid>
+                    )}
+                    {isActive && sub.nextCursor && (
+                      <LoadMoreSentinel
+                        loading={pageState?.loading ?? false}
+                        error={pageState?.error ?? null}
+                        onVisible={() => loadMore(category.id, sub)}
+                        onRetry={() => loadMore(category.id, sub)}
+                      />
+                    )}
+                  </motion.div>
+                );
+              })}
+            </motion.section>
+          ))}
       </main>
 
-      {/* Lightbox */}
-      <AnimatePresence>
-        {lightboxIndex !== null && (
-          <motion.div
-            className="fixed inset-0 bg-black/95 flex items-center justify-center z-50 p-4"
-            initial={{ opacity: 0 }}
-            animate={{ opacity: 1 }}
-            exit={{ opacity: 0 }}
-            onClick={closeLightbox}
-          >
-            <motion.div
-              initial={{ scale: 0.9, opacity: 0 }}
-              animate={{ scale: 1, opacity: 1 }}
-              exit={{ scale: 0.9, opacity: 0 }}
-              className="relative flex items-center max-w-7xl w-full"
-              onClick={(e) => e.stopPropagation()}
-            >
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={closeLightbox}
-                className="absolute top-4 right-4 bg-black/50 text-white rounded-full hover:bg-black/70 z-10"
-              >
-                <X className="w-5 h-5" />
-              </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={prevImage}
-                className="absolute left-4 bg-black/50 text-white rounded-full hover:bg-black/70 z-10"
-              >
-                <ChevronLeft className="w-6 h-6" />
-              </Button>
-              <div className="w-full flex justify-center">
-                <img
-                  src={lightboxItems[lightboxIndex]?.image || ""}
-                  alt={lightboxItems[lightboxIndex]?.name || ""}
-                  className="max-h-[90vh] max-w-[90vw] rounded-lg shadow-2xl"
-                />
-              </div>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={nextImage}
-                className="absolute right-4 bg-black/50 text-white rounded-full hover:bg-black/70 z-10"
-              >
-                <ChevronRight className="w-6 h-6" />
-              </Button>
-              <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 bg-black/70 text-white px-4 py-2 rounded-full backdrop-blur-sm">
-                <p className="text-sm font-medium">
-                  {lightboxItems[lightboxIndex]?.name}
-                </p>
-                <p className="text-xs text-gray-300">
-                  {lightboxIndex + 1} of {lightboxItems.length}
-                </p>
-              </div>
-            </motion.div>
-          </motion.div>
-        )}
-      </AnimatePresence>
+      <Lightbox
+        items={lightboxItems}
+        index={lightboxIndex}
+        brokenIds={brokenImageIds}
+        onSelect={showLightboxItem}
+        onPrev={prevImage}
+        onNext={nextImage}
+        onClose={closeModalRoute}
+        playing={slideshowPlaying}
+        onPlayingChange={setSlideshowPlaying}
+        slideshowSettings={slideshowSettings}
+        onSlideshowSettingsChange={updateSlideshow}
+      />
+
+      {showImageDebug && <ImageDebugPanel onClose={closeImageDebug} />}
+
+      <ProductDetail
+        entry={productEntry}
+        isFavorite={productEntry ? favorites.has(productEntry.item.id) : false}
+        onClose={closeModalRoute}
+        onToggleFavorite={() =>
+          productEntry && toggleFavoriteItem(productEntry.item.id)
+        }
+        onAddToCart={() => productEntry && addToCart(productEntry)}
+        onViewFullscreen={() =>
+          productEntry &&
+          openLightbox(
+            productEntry.subfolder.all,
+            productEntry.subfolder.all.indexOf(productEntry.item)
+          )
+        }
+        onShare={() => productEntry && shareItem(productEntry.item)}
+      />
+
+      <ShareDialog
+        item={shareTarget}
+        onClose={closeShareDialog}
+        onNotice={setShareNotice}
+      />
+      <ShareNotice message={shareNotice} onDismiss={dismissShareNotice} />
+
+      <UpdatedToast show={catalogUpdated} onDismiss={dismissCatalogUpdated} />
+
+      <CartDrawer
+        open={cartOpen}
+        lines={cart.lines}
+        count={cart.count}
+        onClose={() => setCartOpen(false)}
+        onUpdateQuantity={updateCartQuantity}
+        onRemove={removeFromCart}
+        onClear={clearCart}
+        enquiries={enquiries}
+        onEnquirySent={completeEnquiry}
+      />
 
       {/* Footer */}
       <footer className="bg-card/50 border-t border-border mt-20">
@@ -810,27 +1469,27 @@ export default function SareeCatalog() {
           <div className="text-center space-y-8">
             <div className="flex items-center justify-center gap-2">
               <Crown className="w-8 h-8 text-primary" />
-              <h3 className="text-2xl font-bold text-primary">Saree Studio</h3>
+              <h3 className="text-2xl font-bold text-primary">
+                {t("brand.name")}
+              </h3>
             </div>
             <p className="text-muted-foreground max-w-2xl mx-auto text-pretty">
-              Celebrating the timeless beauty of Indian craftsmanship through
-              our curated collection of premium sarees.
+              {t("footer.about")}
             </p>
             <div className="flex justify-center gap-8 text-sm text-muted-foreground">
               <a href="#" className="hover:text-primary transition-colors">
-                Privacy Policy
+                {t("footer.privacy")}
               </a>
               <a href="#" className="hover:text-primary transition-colors">
-                Terms of Service
+                {t("footer.terms")}
               </a>
               <a href="#" className="hover:text-primary transition-colors">
-                Contact Us
+                {t("footer.contact")}
               </a>
             </div>
             <div className="pt-8 border-t border-border/50">
               <p className="text-sm text-muted-foreground">
-                © 2024 Saree Studio. Crafted with love for tradition and
-                elegance.
+                {t("footer.copyright")}
               </p>
             </div>
           </div>
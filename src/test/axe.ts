@@ -0,0 +1,21 @@
+import axe from "axe-core";
+
+// ---------- Accessibility checks ----------
+// jsdom has no layout or canvas, so rules that need rendered pixels can't
+// give a meaningful answer; everything else runs.
+const DISABLED_RULES = ["color-contrast"];
+
+/** axe violations in `container`, as "rule: nodes" lines for readable diffs. */
+export async function axeViolations(container: Element = document.body) {
+  const results = await axe.run(container, {
+    rules: Object.fromEntries(
+      DISABLED_RULES.map((rule) => [rule, { enabled: false }])
+    ),
+  });
+  return results.violations.map(
+    (violation) =>
+      `${violation.id}: ${violation.nodes
+        .map((node) => node.target.join(" "))
+        .join(", ")}`
+  );
+}
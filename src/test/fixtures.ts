@@ -0,0 +1,45 @@
+import type { CartLine } from "@/lib/cart";
+import type { CatalogItem } from "@/lib/catalog";
+
+export const SILK_SAREE: CatalogItem = {
+  id: "kanjivaram-01",
+  name: "Kanjivaram Silk Saree",
+  image: "https://drive.google.com/uc?id=kanjivaram-01",
+  price: 12999,
+  mrp: 15999,
+  fabric: "Silk",
+  colour: "Red / Gold",
+  occasion: ["Wedding"],
+  stock: 2,
+};
+
+export const COTTON_SAREE: CatalogItem = {
+  id: "chanderi-02",
+  name: "Chanderi Cotton Saree",
+  image: null,
+  fabric: "Cotton",
+};
+
+export const CART_LINES: CartLine[] = [
+  {
+    itemId: SILK_SAREE.id,
+    name: SILK_SAREE.name,
+    image: SILK_SAREE.image,
+    categoryId: "silk",
+    categoryName: "Silk",
+    subfolderId: "kanjivaram",
+    subfolderName: "Kanjivaram",
+    price: SILK_SAREE.price,
+    quantity: 1,
+  },
+  {
+    itemId: COTTON_SAREE.id,
+    name: COTTON_SAREE.name,
+    image: COTTON_SAREE.image,
+    categoryId: "cotton",
+    categoryName: "Cotton",
+    subfolderId: "chanderi",
+    subfolderName: "Chanderi",
+    quantity: 2,
+  },
+];
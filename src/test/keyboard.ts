@@ -0,0 +1,19 @@
+import { fireEvent } from "@testing-library/react";
+import { vi } from "vitest";
+
+/**
+ * jsdom lays nothing out, so every element has empty client rects and
+ * useFocusTrap would find nothing focusable. Returns the restore function,
+ * ready to hand back from `beforeEach`.
+ */
+export function stubLayout() {
+  const spy = vi
+    .spyOn(Element.prototype, "getClientRects")
+    .mockReturnValue({ length: 1 } as DOMRectList);
+  return () => spy.mockRestore();
+}
+
+/** Presses `key` on whatever has focus, as a real key press would. */
+export function press(key: string, init: KeyboardEventInit = {}) {
+  fireEvent.keyDown(document.activeElement ?? document.body, { key, ...init });
+}
@@ -0,0 +1,8 @@
+import type { ReactElement } from "react";
+import { render } from "@testing-library/react";
+import { I18nProvider } from "@/components/i18n-provider";
+
+/** Renders `ui` inside the providers every component expects. */
+export function renderWithProviders(ui: ReactElement) {
+  return render(ui, { wrapper: I18nProvider });
+}
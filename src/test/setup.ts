@@ -0,0 +1,24 @@
+import { cleanup } from "@testing-library/react";
+import { afterEach } from "vitest";
+
+// jsdom doesn't implement scrolling…
+Element.prototype.scrollIntoView ??= () => {};
+window.scrollTo = () => {};
+
+// …nor media queries: report none matching (light theme, motion allowed).
+window.matchMedia ??= (query: string) =>
+  ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    addListener: () => {},
+    removeListener: () => {},
+    dispatchEvent: () => false,
+  }) satisfies MediaQueryList;
+
+afterEach(() => {
+  cleanup();
+  window.localStorage.clear();
+});
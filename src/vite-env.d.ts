@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Base URL of the catalog backend, without a trailing slash. */
+  readonly VITE_API_BASE?: string;
+  /** Where enquiries are POSTed: a path on VITE_API_BASE or a full URL. */
+  readonly VITE_ENQUIRY_ENDPOINT?: string;
+  /** Shop's WhatsApp number with country code, e.g. 919876543210. */
+  readonly VITE_WHATSAPP_NUMBER?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}